@@ -0,0 +1,229 @@
+import { AsyncLocalStorage } from "async_hooks";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+export type AuditOutcome = "success" | "error" | "denied" | "confirmation_required" | "cancelled";
+
+export type AuditEntry = {
+  timestamp: string;
+  tool: string;
+  repository: string | null;
+  arguments: Record<string, unknown>;
+  outcome: AuditOutcome;
+  error?: { name: string, message: string, status?: number };
+  githubRequestIds: string[];
+  latencyMs: number;
+  sessionId?: string;
+};
+
+export type AuditQuery = {
+  tool?: string;
+  repository?: string;
+  outcome?: AuditOutcome;
+  since?: string;
+  limit?: number;
+  sessionId?: string;
+};
+
+type AuditConfig = {
+  path: string;
+  maxBytes: number;
+  maxFiles: number;
+};
+
+// Argument names whose values are never written to the audit log
+const SECRET_KEY_PATTERN = /token|secret|password|passphrase|private.?key|api.?key|authorization|credential/i;
+
+// GitHub tokens passed in values, e.g. as workflow inputs
+const SECRET_VALUE_PATTERN = /\b(gh[pousr]_[A-Za-z0-9]{20,}|github_pat_[A-Za-z0-9_]{20,})\b/g;
+
+let config: AuditConfig = {
+  path: path.join(os.tmpdir(), "github-actions-mcp", "audit.jsonl"),
+  maxBytes: 10 * 1024 * 1024,
+  maxFiles: 5,
+};
+let enabled = true;
+
+// Writes are chained so entries keep their order and rotation never races an append
+let writeQueue: Promise<void> = Promise.resolve();
+
+// GitHub request IDs collected for the tool call that is running
+const callContext = new AsyncLocalStorage<{ requestIds: string[] }>();
+
+export function configureAudit(value: Partial<AuditConfig> & { enabled?: boolean }): void {
+  const { enabled: isEnabled, ...rest } = value;
+  config = { ...config, ...rest };
+  if (isEnabled !== undefined) {
+    enabled = isEnabled;
+  }
+}
+
+export function getAuditConfig() {
+  return { enabled, ...config };
+}
+
+/**
+ * Record the `x-github-request-id` of a response for the current tool call
+ */
+export function recordGitHubRequestId(requestId: string | null): void {
+  if (requestId) {
+    callContext.getStore()?.requestIds.push(requestId);
+  }
+}
+
+/**
+ * The most recent GitHub request ID of the current tool call
+ */
+export function lastGitHubRequestId(): string | undefined {
+  return callContext.getStore()?.requestIds.at(-1);
+}
+
+/**
+ * Replace secrets in tool arguments, by argument name and by token format
+ */
+export function redactSecrets(value: unknown, key = ""): unknown {
+  if (key && SECRET_KEY_PATTERN.test(key) && value !== undefined && value !== null && value !== "") {
+    return "[REDACTED]";
+  }
+  if (typeof value === "string") {
+    return value.replace(SECRET_VALUE_PATTERN, "[REDACTED]");
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, redactSecrets(item, name)]));
+  }
+  return value;
+}
+
+function rotatedPath(index: number): string {
+  return `${config.path}.${index}`;
+}
+
+// Shift audit.jsonl -> .1 -> .2 ..., dropping files beyond the retention count
+async function rotate(): Promise<void> {
+  await fs.promises.rm(rotatedPath(config.maxFiles), { force: true });
+  for (let index = config.maxFiles - 1; index >= 1; index--) {
+    await fs.promises.rename(rotatedPath(index), rotatedPath(index + 1)).catch(() => undefined);
+  }
+  await fs.promises.rename(config.path, rotatedPath(1));
+}
+
+async function append(entry: AuditEntry): Promise<void> {
+  const line = `${JSON.stringify(entry)}\n`;
+  await fs.promises.mkdir(path.dirname(config.path), { recursive: true });
+  const size = await fs.promises.stat(config.path).then(stat => stat.size, () => 0);
+  if (size > 0 && size + Buffer.byteLength(line) > config.maxBytes) {
+    await rotate();
+  }
+  await fs.promises.appendFile(config.path, line, { encoding: "utf8", mode: 0o600 });
+}
+
+function writeEntry(entry: AuditEntry): Promise<void> {
+  if (!enabled) {
+    return Promise.resolve();
+  }
+  // A failing audit write must not fail the tool call
+  writeQueue = writeQueue.then(() => append(entry)).catch(() => undefined);
+  return writeQueue;
+}
+
+function describeError(error: unknown): AuditEntry["error"] {
+  if (!(error instanceof Error)) {
+    return { name: "Error", message: String(error) };
+  }
+  return {
+    name: error.name,
+    message: error.message,
+    ...("status" in error && typeof error.status === "number" ? { status: error.status } : {}),
+  };
+}
+
+/**
+ * Run a tool call and write its audit entry
+ *
+ * @param tool The tool name
+ * @param args The validated tool arguments
+ * @param call Runs the tool; may report an outcome other than success or error, and the error behind it
+ * @param sessionId The MCP session the call belongs to, if any
+ * @returns The result of the call
+ */
+export async function auditToolCall<T>(
+  tool: string,
+  args: Record<string, any>,
+  call: (setOutcome: (outcome: AuditOutcome, error?: unknown) => void) => Promise<T>,
+  sessionId?: string
+): Promise<T> {
+  const context = { requestIds: [] as string[] };
+  const started = Date.now();
+  let outcome: AuditOutcome | undefined;
+  let failure: unknown;
+
+  const entry = (): Omit<AuditEntry, "outcome"> => ({
+    timestamp: new Date(started).toISOString(),
+    tool,
+    repository: args.owner && args.repo ? `${args.owner}/${args.repo}` : null,
+    arguments: redactSecrets(args) as Record<string, unknown>,
+    githubRequestIds: context.requestIds,
+    latencyMs: Date.now() - started,
+    ...(sessionId ? { sessionId } : {}),
+  });
+
+  try {
+    const result = await callContext.run(context, () => call((value, error) => { outcome = value; failure = error; }));
+    const isError = (result as { isError?: boolean } | undefined)?.isError === true;
+    void writeEntry({
+      ...entry(),
+      outcome: outcome ?? (isError ? "error" : "success"),
+      ...(failure !== undefined ? { error: describeError(failure) } : {}),
+    });
+    return result;
+  } catch (error) {
+    void writeEntry({ ...entry(), outcome: "error", error: describeError(error) });
+    throw error;
+  }
+}
+
+/**
+ * Read recent audit entries, newest first, from the current and rotated files
+ */
+export async function queryAuditLog(query: AuditQuery = {}): Promise<AuditEntry[]> {
+  const limit = query.limit ?? 50;
+  const since = query.since ? Date.parse(query.since) : undefined;
+  const matches: AuditEntry[] = [];
+
+  // Make sure entries of calls that just finished are on disk
+  await writeQueue;
+
+  for (const file of [config.path, ...Array.from({ length: config.maxFiles }, (_, index) => rotatedPath(index + 1))]) {
+    const content = await fs.promises.readFile(file, "utf8").catch(() => undefined);
+    if (content === undefined) {
+      continue;
+    }
+    const lines = content.split("\n").filter(Boolean).reverse();
+    for (const line of lines) {
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (since !== undefined && Date.parse(entry.timestamp) < since) {
+        return matches;
+      }
+      if ((query.tool && entry.tool !== query.tool)
+        || (query.repository && entry.repository?.toLowerCase() !== query.repository.toLowerCase())
+        || (query.outcome && entry.outcome !== query.outcome)
+        || (query.sessionId && entry.sessionId !== query.sessionId)) {
+        continue;
+      }
+      matches.push(entry);
+      if (matches.length >= limit) {
+        return matches;
+      }
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,224 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { createSign } from "crypto";
+import { z } from "zod";
+import { githubRequest, apiUrl, getApiBaseUrl } from "./utils.js";
+import { GitHubAuthenticationError, GitHubResourceNotFoundError } from "./errors.js";
+
+export type GitHubCredentials =
+  | { type: "token", token: string }
+  | { type: "app", appId: string, privateKey: string, installationId?: number };
+
+const InstallationSchema = z.object({
+  id: z.number(),
+  account: z.object({ login: z.string() }).passthrough().nullable().optional(),
+}).passthrough();
+
+const InstallationTokenSchema = z.object({
+  token: z.string(),
+  expires_at: z.string(),
+}).passthrough();
+
+// Refresh tokens this long before GitHub expires them
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// GitHub accepts app JWTs valid for at most ten minutes
+const JWT_LIFETIME_SECONDS = 9 * 60;
+
+let credentials: GitHubCredentials | undefined;
+let appJwt: { token: string, expiresAt: number } | undefined;
+const installationsByOwner = new Map<string, number>();
+const installationTokens = new Map<number, { token: string, expiresAt: number }>();
+// Installation of each current installation token
+const tokenInstallations = new Map<string, number>();
+const pendingTokens = new Map<number, Promise<string>>();
+const pendingInstallations = new Map<string, Promise<number>>();
+
+// Token of the HTTP session a request belongs to; it takes precedence over the configured credentials
+const sessionToken = new AsyncLocalStorage<string>();
+
+/**
+ * Set the credentials every GitHub request is made with
+ */
+export function configureAuth(value: GitHubCredentials): void {
+  credentials = value;
+  appJwt = undefined;
+  installationsByOwner.clear();
+  installationTokens.clear();
+  tokenInstallations.clear();
+  pendingTokens.clear();
+  pendingInstallations.clear();
+}
+
+export function hasCredentials(): boolean {
+  return credentials !== undefined;
+}
+
+/**
+ * Run a function with the GitHub token of a session, or with the configured
+ * credentials when the session did not bring one
+ */
+export function withGitHubToken<T>(token: string | undefined, fn: () => T): T {
+  return token ? sessionToken.run(token, fn) : fn();
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+/**
+ * Mint a JWT signed with the app's private key, reused until shortly before it expires
+ */
+function createAppJwt(appId: string, privateKey: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  if (appJwt && appJwt.expiresAt - 60 > now) {
+    return appJwt.token;
+  }
+  // Issued a minute in the past to allow for clock drift
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const payload = base64url(JSON.stringify({ iat: now - 60, exp: now + JWT_LIFETIME_SECONDS, iss: appId }));
+  const signature = createSign("RSA-SHA256").update(`${header}.${payload}`).sign(privateKey);
+  appJwt = { token: `${header}.${payload}.${base64url(signature)}`, expiresAt: now + JWT_LIFETIME_SECONDS };
+  return appJwt.token;
+}
+
+function appHeaders(): Record<string, string> {
+  if (credentials?.type !== "app") {
+    throw new GitHubAuthenticationError("GitHub App credentials are not configured");
+  }
+  return { Authorization: `Bearer ${createAppJwt(credentials.appId, credentials.privateKey)}` };
+}
+
+/**
+ * Find the installation of the GitHub App on a repository, or on the owner's account
+ *
+ * @param owner Repository owner (username or organization)
+ * @param repo Repository name; without it the organization, then the user installation is looked up
+ * @returns The installation ID
+ * @throws GitHubResourceNotFoundError when the app is not installed for the owner
+ */
+export async function findInstallation(owner: string, repo?: string): Promise<number> {
+  const key = owner.toLowerCase();
+  const known = installationsByOwner.get(key);
+  if (known !== undefined) {
+    return known;
+  }
+
+  let pending = pendingInstallations.get(key);
+  if (!pending) {
+    pending = lookupInstallation(owner, repo).finally(() => pendingInstallations.delete(key));
+    pendingInstallations.set(key, pending);
+  }
+  return pending;
+}
+
+async function lookupInstallation(owner: string, repo?: string): Promise<number> {
+  const candidates = repo
+    ? [apiUrl(`/repos/${owner}/${repo}/installation`)]
+    : [apiUrl(`/orgs/${owner}/installation`), apiUrl(`/users/${owner}/installation`)];
+  for (const url of candidates) {
+    try {
+      const installation = InstallationSchema.parse(await githubRequest(url, { headers: appHeaders() }));
+      installationsByOwner.set(owner.toLowerCase(), installation.id);
+      return installation.id;
+    } catch (error) {
+      if (!(error instanceof GitHubResourceNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+  throw new GitHubResourceNotFoundError(`GitHub App installation for ${repo ? `${owner}/${repo}` : owner}`);
+}
+
+/**
+ * Get an access token for an installation, cached until shortly before it expires
+ */
+export async function getInstallationToken(installationId: number): Promise<string> {
+  const cached = installationTokens.get(installationId);
+  if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return cached.token;
+  }
+
+  // Concurrent requests share one token request
+  let pending = pendingTokens.get(installationId);
+  if (!pending) {
+    pending = (async () => {
+      const response = await githubRequest(apiUrl(`/app/installations/${installationId}/access_tokens`), {
+        method: "POST",
+        headers: appHeaders(),
+      });
+      const { token, expires_at } = InstallationTokenSchema.parse(response);
+      const previous = installationTokens.get(installationId);
+      if (previous) {
+        tokenInstallations.delete(previous.token);
+      }
+      installationTokens.set(installationId, { token, expiresAt: Date.parse(expires_at) });
+      tokenInstallations.set(token, installationId);
+      return token;
+    })().finally(() => pendingTokens.delete(installationId));
+    pendingTokens.set(installationId, pending);
+  }
+  return pending;
+}
+
+/**
+ * The GitHub App installation or app behind an Authorization header. Their
+ * tokens rotate within the hour, while what they may access and their rate
+ * limit stay with the installation or app.
+ *
+ * @returns e.g. `installation:42`, or undefined for other tokens
+ */
+export function credentialIdentity(authorization: string): string | undefined {
+  const token = authorization.replace(/^(Bearer|token) /i, "");
+  const installationId = tokenInstallations.get(token);
+  if (installationId !== undefined) {
+    return `installation:${installationId}`;
+  }
+  if (credentials?.type === "app" && appJwt?.token === token) {
+    return `app:${credentials.appId}`;
+  }
+  return undefined;
+}
+
+// Owner and repository a request URL is about, if any
+function requestTarget(url: string): { owner: string, repo?: string } | undefined {
+  const path = url.slice(getApiBaseUrl().length).split("?")[0];
+  const repoMatch = path.match(/^\/repos\/([^/]+)\/([^/]+)/);
+  if (repoMatch) {
+    return { owner: repoMatch[1], repo: repoMatch[2] };
+  }
+  const ownerMatch = path.match(/^\/(?:orgs|users)\/([^/]+)/);
+  return ownerMatch ? { owner: ownerMatch[1] } : undefined;
+}
+
+/**
+ * Resolve the `Authorization` header for a GitHub API request
+ *
+ * Requests of an HTTP session that brought its own token use that token.
+ * With a personal access token this is always the same token. With a GitHub
+ * App the installation for the owner in the URL is used; requests that do not
+ * name an owner use the configured installation, or the app itself.
+ *
+ * @param url The request URL
+ * @returns The header value, or undefined when no credentials are configured
+ */
+export async function resolveAuthorization(url: string): Promise<string | undefined> {
+  const token = sessionToken.getStore();
+  if (token) {
+    return `Bearer ${token}`;
+  }
+  if (!credentials) {
+    return undefined;
+  }
+  if (credentials.type === "token") {
+    return `Bearer ${credentials.token}`;
+  }
+
+  const target = requestTarget(url);
+  const installationId = target
+    ? await findInstallation(target.owner, target.repo)
+    : credentials.installationId;
+  if (installationId === undefined) {
+    return appHeaders().Authorization;
+  }
+  return `Bearer ${await getInstallationToken(installationId)}`;
+}
@@ -0,0 +1,312 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { credentialKey } from "./rate-limit.js";
+
+export type CachedResponse = {
+  url: string;
+  policy: string;
+  etag?: string;
+  lastModified?: string;
+  link?: string;
+  body: unknown;
+  size: number;
+  storedAt: number;
+  // null when the response never changes
+  expiresAt: number | null;
+};
+
+export type SentResponse = {
+  status: number;
+  body: unknown;
+  headers: Headers;
+};
+
+type CachePolicy = {
+  name: string;
+  pattern: RegExp;
+  // Time to live in milliseconds; Infinity never expires, 0 disables caching
+  ttl: (url: URL, body: unknown) => number;
+};
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+const isCompleted = (body: unknown) => (body as { status?: string } | null)?.status === "completed";
+const isCommitSha = (ref: string | null) => !!ref && /^[0-9a-f]{40}$/i.test(ref);
+
+/**
+ * Time to live per endpoint, first match wins. Only a completed attempt of a
+ * run never changes; a completed run or job becomes active again when it is
+ * re-run from anywhere, so those are revalidated too, which costs no rate limit.
+ */
+const CACHE_POLICIES: CachePolicy[] = [
+  { name: "rate_limit", pattern: /^\/rate_limit$/, ttl: () => 0 },
+  { name: "user", pattern: /^\/user$/, ttl: () => 60 * MINUTE },
+  { name: "run_attempt", pattern: /\/actions\/runs\/\d+\/attempts\/\d+$/, ttl: (_, body) => isCompleted(body) ? Infinity : 10 * SECOND },
+  { name: "run", pattern: /\/actions\/runs\/\d+$/, ttl: (_, body) => isCompleted(body) ? 30 * SECOND : 10 * SECOND },
+  { name: "job", pattern: /\/actions\/jobs\/\d+$/, ttl: (_, body) => isCompleted(body) ? 30 * SECOND : 10 * SECOND },
+  {
+    name: "run_jobs",
+    pattern: /\/actions\/runs\/\d+(\/attempts\/\d+)?\/jobs$/,
+    ttl: (url, body) => {
+      const jobs = (body as { jobs?: unknown[] } | null)?.jobs ?? [];
+      const done = jobs.length > 0 && jobs.every(isCompleted);
+      // The jobs of one attempt are final once they have completed; the latest attempt may still change
+      return done ? (url.pathname.includes("/attempts/") ? Infinity : 30 * SECOND) : 15 * SECOND;
+    },
+  },
+  { name: "runs", pattern: /\/actions\/(workflows\/[^/]+\/)?runs$/, ttl: () => 15 * SECOND },
+  { name: "artifacts", pattern: /\/artifacts(\/\d+)?$/, ttl: () => MINUTE },
+  { name: "workflow_usage", pattern: /\/actions\/workflows\/[^/]+\/timing$/, ttl: () => 5 * MINUTE },
+  { name: "workflows", pattern: /\/actions\/workflows(\/[^/]+)?$/, ttl: () => 10 * MINUTE },
+  { name: "contents", pattern: /\/contents\//, ttl: url => isCommitSha(url.searchParams.get("ref")) ? Infinity : 10 * MINUTE },
+  { name: "default", pattern: /.*/, ttl: () => MINUTE },
+];
+
+const MAX_MEMORY_BYTES = 50 * 1024 * 1024;
+
+// The disk store is pruned to this size, dropping files not written for the longest time
+const MAX_DISK_BYTES = 200 * 1024 * 1024;
+// Files not written for this long are deleted, whether or not they have expired
+const MAX_DISK_AGE_MS = 24 * 60 * MINUTE;
+const DISK_PRUNE_INTERVAL_MS = 5 * MINUTE;
+
+const CACHE_ENABLED = !["0", "false", "off"].includes((process.env.GITHUB_ACTIONS_MCP_CACHE ?? "").toLowerCase());
+const CACHE_DIR = process.env.GITHUB_ACTIONS_MCP_CACHE_DIR;
+
+// Insertion order doubles as recency for eviction
+const entries = new Map<string, CachedResponse>();
+let memoryBytes = 0;
+let diskPrunedAt = 0;
+
+// Repositories changed through this server, by API path prefix
+const invalidatedAt = new Map<string, number>();
+
+type PolicyStats = { hits: number, revalidated: number, misses: number };
+const stats = { hits: 0, revalidated: 0, misses: 0, stores: 0, evictions: 0, diskReads: 0, diskWrites: 0, diskEvictions: 0, diskErrors: 0 };
+const statsByPolicy = new Map<string, PolicyStats>();
+
+function findPolicy(url: URL): CachePolicy {
+  const apiPath = url.pathname.replace(/^\/api\/v3/, "");
+  return CACHE_POLICIES.find(policy => policy.pattern.test(apiPath))!;
+}
+
+function count(policy: string, outcome: keyof PolicyStats) {
+  stats[outcome]++;
+  const entry = statsByPolicy.get(policy) ?? { hits: 0, revalidated: 0, misses: 0 };
+  entry[outcome]++;
+  statsByPolicy.set(policy, entry);
+}
+
+function repositoryPrefix(url: string): string | undefined {
+  return url.match(/^(.*\/repos\/[^/]+\/[^/]+)(\/|$)/)?.[1];
+}
+
+function isInvalidated(entry: CachedResponse): boolean {
+  const prefix = repositoryPrefix(entry.url);
+  return !!prefix && (invalidatedAt.get(prefix) ?? 0) >= entry.storedAt;
+}
+
+function diskPath(key: string): string {
+  return path.join(CACHE_DIR!, `${key}.json`);
+}
+
+function remember(key: string, entry: CachedResponse) {
+  const previous = entries.get(key);
+  if (previous) {
+    memoryBytes -= previous.size;
+    entries.delete(key);
+  }
+  entries.set(key, entry);
+  memoryBytes += entry.size;
+  for (const [oldestKey, oldest] of entries) {
+    if (memoryBytes <= MAX_MEMORY_BYTES) {
+      break;
+    }
+    entries.delete(oldestKey);
+    memoryBytes -= oldest.size;
+    stats.evictions++;
+  }
+}
+
+async function lookup(key: string): Promise<CachedResponse | undefined> {
+  let entry = entries.get(key);
+  if (!entry && CACHE_DIR) {
+    try {
+      entry = JSON.parse(await fs.readFile(diskPath(key), "utf8")) as CachedResponse;
+      stats.diskReads++;
+    } catch {
+      entry = undefined;
+    }
+  }
+  if (!entry || isInvalidated(entry)) {
+    return undefined;
+  }
+  remember(key, entry);
+  return entry;
+}
+
+// Delete old files, then the least recently written ones until the store fits its size limit
+async function pruneDisk(now: number) {
+  const files = [];
+  for (const name of await fs.readdir(CACHE_DIR!)) {
+    if (!name.endsWith(".json")) {
+      continue;
+    }
+    const file = path.join(CACHE_DIR!, name);
+    const stat = await fs.stat(file).catch(() => undefined);
+    if (stat) {
+      files.push({ file, size: stat.size, writtenAt: stat.mtimeMs });
+    }
+  }
+  files.sort((a, b) => a.writtenAt - b.writtenAt);
+
+  let diskBytes = files.reduce((sum, file) => sum + file.size, 0);
+  for (const { file, size, writtenAt } of files) {
+    if (now - writtenAt <= MAX_DISK_AGE_MS && diskBytes <= MAX_DISK_BYTES) {
+      break;
+    }
+    await fs.rm(file, { force: true });
+    diskBytes -= size;
+    stats.diskEvictions++;
+  }
+}
+
+async function store(key: string, entry: CachedResponse) {
+  remember(key, entry);
+  stats.stores++;
+  if (CACHE_DIR) {
+    try {
+      await fs.mkdir(CACHE_DIR, { recursive: true });
+      await fs.writeFile(diskPath(key), JSON.stringify(entry));
+      stats.diskWrites++;
+      if (entry.storedAt - diskPrunedAt >= DISK_PRUNE_INTERVAL_MS) {
+        diskPrunedAt = entry.storedAt;
+        await pruneDisk(entry.storedAt);
+      }
+    } catch {
+      // The disk store is best effort; the in-memory entry still serves
+      stats.diskErrors++;
+    }
+  }
+}
+
+function responseHeaders(entry: CachedResponse): Headers {
+  const headers = new Headers({ "x-mcp-cache": "hit" });
+  if (entry.etag) {
+    headers.set("etag", entry.etag);
+  }
+  if (entry.link) {
+    headers.set("link", entry.link);
+  }
+  return headers;
+}
+
+function expiry(ttl: number, now: number): number | null {
+  return ttl === Infinity ? null : now + ttl;
+}
+
+/**
+ * Serve a GET request from the cache, revalidating stale entries with
+ * `If-None-Match` / `If-Modified-Since`. GitHub does not count a 304 against
+ * the rate limit.
+ *
+ * @param url The request URL
+ * @param headers The request headers; the identity of the credentials is part of the cache key
+ * @param send Sends the request and resolves with the status, including 304
+ * @returns The response body and headers
+ */
+export async function cachedRequest(
+  url: string,
+  headers: Record<string, string>,
+  send: (headers: Record<string, string>) => Promise<SentResponse>
+): Promise<{ body: unknown, headers: Headers }> {
+  const policy = findPolicy(new URL(url));
+  if (!CACHE_ENABLED || policy.ttl(new URL(url), undefined) === 0) {
+    const response = await send(headers);
+    return { body: response.body, headers: response.headers };
+  }
+
+  const key = createHash("sha256")
+    .update([url, headers["Accept"] ?? "", credentialKey(headers["Authorization"])].join("\n"))
+    .digest("hex");
+  const cached = await lookup(key);
+  const now = Date.now();
+
+  if (cached && (cached.expiresAt === null || cached.expiresAt > now)) {
+    count(policy.name, "hits");
+    return { body: cached.body, headers: responseHeaders(cached) };
+  }
+
+  const conditionalHeaders = { ...headers };
+  if (cached?.etag) {
+    conditionalHeaders["If-None-Match"] = cached.etag;
+  } else if (cached?.lastModified) {
+    conditionalHeaders["If-Modified-Since"] = cached.lastModified;
+  }
+
+  const response = await send(conditionalHeaders);
+  if (cached && response.status === 304) {
+    count(policy.name, "revalidated");
+    await store(key, { ...cached, storedAt: now, expiresAt: expiry(policy.ttl(new URL(url), cached.body), now) });
+    return { body: cached.body, headers: responseHeaders(cached) };
+  }
+
+  count(policy.name, "misses");
+  const etag = response.headers.get("etag") ?? undefined;
+  const lastModified = response.headers.get("last-modified") ?? undefined;
+  if (etag || lastModified) {
+    await store(key, {
+      url,
+      policy: policy.name,
+      etag,
+      lastModified,
+      link: response.headers.get("link") ?? undefined,
+      body: response.body,
+      size: JSON.stringify(response.body ?? null).length,
+      storedAt: now,
+      expiresAt: expiry(policy.ttl(new URL(url), response.body), now),
+    });
+  }
+  return { body: response.body, headers: response.headers };
+}
+
+/**
+ * Drop cached responses of the repository a mutating request went to
+ */
+export function invalidateCachedRepository(url: string): void {
+  const prefix = repositoryPrefix(url);
+  if (!prefix) {
+    return;
+  }
+  invalidatedAt.set(prefix, Date.now());
+  for (const [key, entry] of entries) {
+    if (entry.url.startsWith(`${prefix}/`)) {
+      entries.delete(key);
+      memoryBytes -= entry.size;
+    }
+  }
+}
+
+export async function clearCache(): Promise<void> {
+  entries.clear();
+  memoryBytes = 0;
+  if (CACHE_DIR) {
+    await fs.rm(CACHE_DIR, { recursive: true, force: true });
+  }
+}
+
+export function getCacheStats() {
+  const lookups = stats.hits + stats.revalidated + stats.misses;
+  return {
+    enabled: CACHE_ENABLED,
+    diskStore: CACHE_DIR ?? null,
+    entries: entries.size,
+    memoryBytes,
+    ...stats,
+    // Share of lookups that cost no rate limit
+    hitRate: lookups > 0 ? Math.round(((stats.hits + stats.revalidated) / lookups) * 1000) / 1000 : null,
+    byEndpoint: Object.fromEntries(statsByPolicy),
+  };
+}
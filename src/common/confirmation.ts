@@ -0,0 +1,86 @@
+import { randomBytes } from "crypto";
+import { ConfirmationError } from "./errors.js";
+
+type PendingConfirmation = {
+  tool: string;
+  fingerprint: string;
+  expiresAt: number;
+  // MCP session that was shown the preview; only it can redeem the token
+  sessionId?: string;
+};
+
+const DEFAULT_TTL_SECONDS = 300;
+
+// Arguments that steer the handshake rather than the action
+const HANDSHAKE_ARGUMENTS = new Set(["dryRun", "confirmationToken"]);
+
+const pending = new Map<string, PendingConfirmation>();
+
+// Key order independent serialization of the arguments a token was issued for
+function fingerprint(args: Record<string, unknown>): string {
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(normalize);
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>)
+          .filter(([, item]) => item !== undefined)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([key, item]) => [key, normalize(item)])
+      );
+    }
+    return value;
+  };
+  const actionArgs = Object.fromEntries(Object.entries(args).filter(([key]) => !HANDSHAKE_ARGUMENTS.has(key)));
+  return JSON.stringify(normalize(actionArgs));
+}
+
+function prune(now: number) {
+  for (const [token, entry] of pending) {
+    if (entry.expiresAt <= now) {
+      pending.delete(token);
+    }
+  }
+}
+
+/**
+ * Issue a single-use token that confirms a call with exactly these arguments
+ *
+ * @param sessionId The MCP session the preview goes to, if any
+ */
+export function issueConfirmationToken(
+  tool: string,
+  args: Record<string, unknown>,
+  ttlSeconds = DEFAULT_TTL_SECONDS,
+  sessionId?: string
+): { token: string, expiresAt: string } {
+  const now = Date.now();
+  prune(now);
+  const token = randomBytes(16).toString("base64url");
+  const expiresAt = now + ttlSeconds * 1000;
+  pending.set(token, { tool, fingerprint: fingerprint(args), expiresAt, ...(sessionId ? { sessionId } : {}) });
+  return { token, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+/**
+ * Redeem a confirmation token for a call
+ *
+ * @param sessionId The MCP session making the call, if any
+ * @throws ConfirmationError when the token is unknown, expired, issued to another session, or issued for a different call
+ */
+export function redeemConfirmationToken(tool: string, args: Record<string, unknown>, token: string, sessionId?: string): void {
+  prune(Date.now());
+  const entry = pending.get(token);
+  // Tokens of other sessions are treated as unknown so they cannot be probed
+  if (!entry || entry.sessionId !== sessionId) {
+    throw new ConfirmationError("Confirmation token is unknown or has expired; request a new preview", "invalid_token");
+  }
+  if (entry.tool !== tool || entry.fingerprint !== fingerprint(args)) {
+    throw new ConfirmationError(
+      "Confirmation token was issued for a different call; the tool and arguments must match the preview",
+      "arguments_changed"
+    );
+  }
+  pending.delete(token);
+}
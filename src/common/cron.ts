@@ -0,0 +1,219 @@
+/**
+ * Cron expressions in the POSIX subset supported by GitHub Actions schedules.
+ * Expressions have five fields (minute, hour, day of month, month, day of week),
+ * support `*`, lists, ranges, steps and month/day names, and are evaluated in UTC.
+ */
+
+type CronFieldSpec = {
+  name: string;
+  min: number;
+  max: number;
+  // Names are mapped to their index plus min, e.g. JAN is 1 and SUN is 0
+  names?: string[];
+};
+
+const FIELDS: CronFieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"] },
+  { name: "day of week", min: 0, max: 7, names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] },
+];
+
+const MONTH_NAMES = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Stop searching for the next fire time after this many years (e.g. for Feb 30)
+const MAX_SEARCH_YEARS = 5;
+
+export type CronSchedule = {
+  expression: string;
+  fields: string[];
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // When both day fields are restricted a day matches if either one matches
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+};
+
+function parseValue(value: string, spec: CronFieldSpec): number {
+  const index = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+  if (index >= 0) {
+    return spec.min + index;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${spec.name} value "${value}"`);
+  }
+  const number = Number(value);
+  if (number < spec.min || number > spec.max) {
+    throw new Error(`${spec.name} value ${number} is out of range ${spec.min}-${spec.max}`);
+  }
+  return number;
+}
+
+function parseField(field: string, spec: CronFieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in ${spec.name} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid range "${range}" in ${spec.name} field`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ *
+ * @throws Error when the expression is not valid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields, found ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    fields,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== "*",
+    dayOfWeekRestricted: fields[4] !== "*",
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Compute the fire times of a schedule strictly after a given time
+ *
+ * @param schedule The parsed schedule
+ * @param after The time to start searching from
+ * @param count The number of fire times to return
+ * @param until Optional upper bound (inclusive) for the returned times
+ */
+export function nextFireTimes(schedule: CronSchedule, after: Date, count: number, until?: Date): Date[] {
+  const results: Date[] = [];
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = until?.getTime() ?? Date.UTC(after.getUTCFullYear() + MAX_SEARCH_YEARS, 0, 1);
+
+  while (results.length < count && date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      results.push(new Date(date.getTime()));
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    }
+  }
+
+  return results;
+}
+
+function describeField(field: string, unit: string, format: (value: number) => string): string {
+  return field.split(",").map(part => {
+    const [range, step] = part.split("/");
+    const every = step ? `every ${step} ${unit}s` : "";
+    if (range === "*") {
+      return every || `every ${unit}`;
+    }
+    const bounds = range.split("-").map(value => format(Number(value)));
+    const text = range.includes("-") ? `${bounds[0]} through ${bounds[1]}` : bounds[0];
+    return step ? `${every} from ${text}` : text;
+  }).filter((text, index, all) => all.indexOf(text) === index).join(", ");
+}
+
+function withNames(field: string, spec: CronFieldSpec): string {
+  // Replace month and day names by their numbers so they can be formatted uniformly
+  return field.replace(/[a-z]{3}/gi, name => String(parseValue(name, spec)));
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Describe a schedule in plain English, e.g. "At 03:30 UTC, Monday through Friday"
+ */
+export function describeCron(schedule: CronSchedule): string {
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = schedule.fields;
+  const parts: string[] = [];
+
+  if (schedule.minutes.size === 1 && schedule.hours.size === 1) {
+    parts.push(`At ${pad([...schedule.hours][0])}:${pad([...schedule.minutes][0])} UTC`);
+  } else if (hour === "*") {
+    parts.push(minute.includes("*") || minute.includes("/")
+      ? `${describeField(minute, "minute", String).replace(/^every/, "Every")}`
+      : `At minute ${describeField(minute, "minute", String)} past every hour`);
+  } else {
+    const minuteText = schedule.minutes.size === 1 ? `minute ${[...schedule.minutes][0]}` : describeField(minute, "minute", String);
+    const hourText = describeField(hour, "hour", String);
+    parts.push(`At ${minuteText} past ${hourText.startsWith("every") ? hourText : `hour ${hourText}`} UTC`);
+  }
+
+  if (dayOfMonth !== "*") {
+    parts.push(`on day ${describeField(dayOfMonth, "day", String)} of the month`);
+  }
+  if (dayOfWeek !== "*") {
+    const days = describeField(withNames(dayOfWeek, FIELDS[4]), "day", value => DAY_NAMES[value % 7]);
+    parts.push(dayOfMonth !== "*" ? `or on ${days}` : `on ${days}`);
+  }
+  if (month !== "*") {
+    parts.push(`in ${describeField(withNames(month, FIELDS[3]), "month", value => MONTH_NAMES[value - 1])}`);
+  }
+  if (dayOfMonth === "*" && dayOfWeek === "*" && month === "*" && hour !== "*" && schedule.hours.size === 1) {
+    parts.push("every day");
+  }
+
+  return parts.join(", ");
+}
@@ -1,4 +1,8 @@
 export class GitHubError extends Error {
+  // Set for errors built from a GitHub response
+  public requestId?: string;
+  public documentationUrl?: string;
+
   constructor(
     message: string,
     public readonly status: number,
@@ -9,6 +13,16 @@ export class GitHubError extends Error {
   }
 }
 
+export class InvalidArgumentError extends GitHubError {
+  constructor(
+    message: string,
+    public readonly argument: string
+  ) {
+    super(message, 400, { message, argument });
+    this.name = "InvalidArgumentError";
+  }
+}
+
 export class GitHubValidationError extends GitHubError {
   constructor(message: string, status: number, response: unknown) {
     super(message, status, response);
@@ -16,6 +30,35 @@ export class GitHubValidationError extends GitHubError {
   }
 }
 
+export type WorkflowInputError = {
+  input: string;
+  error: string;
+};
+
+export class WorkflowInputValidationError extends GitHubValidationError {
+  constructor(
+    workflowId: string | number,
+    public readonly errors: WorkflowInputError[]
+  ) {
+    super(
+      `Invalid inputs for workflow ${workflowId}:\n${errors.map(e => `- ${e.input}: ${e.error}`).join("\n")}`,
+      422,
+      { message: `Invalid inputs for workflow ${workflowId}`, errors }
+    );
+    this.name = "WorkflowInputValidationError";
+  }
+}
+
+export class WorkflowDefinitionError extends GitHubValidationError {
+  constructor(
+    public readonly workflow: string,
+    message: string
+  ) {
+    super(message, 422, { message, workflow });
+    this.name = "WorkflowDefinitionError";
+  }
+}
+
 export class GitHubResourceNotFoundError extends GitHubError {
   constructor(resource: string) {
     super(`Resource not found: ${resource}`, 404, { message: `${resource} not found` });
@@ -40,9 +83,11 @@ export class GitHubPermissionError extends GitHubError {
 export class GitHubRateLimitError extends GitHubError {
   constructor(
     message = "Rate limit exceeded",
-    public readonly resetAt: Date
+    public readonly resetAt: Date,
+    status = 429,
+    public readonly secondary = false
   ) {
-    super(message, 429, { message, reset_at: resetAt.toISOString() });
+    super(message, status, { message, reset_at: resetAt.toISOString(), secondary });
     this.name = "GitHubRateLimitError";
   }
 }
@@ -74,6 +119,27 @@ export class GitHubConflictError extends GitHubError {
   }
 }
 
+export class PolicyViolationError extends GitHubError {
+  constructor(
+    message: string,
+    public readonly rule: string,
+    details: Record<string, unknown> = {}
+  ) {
+    super(message, 403, { message, rule, ...details });
+    this.name = "PolicyViolationError";
+  }
+}
+
+export class ConfirmationError extends GitHubError {
+  constructor(
+    message: string,
+    public readonly reason: "invalid_token" | "arguments_changed"
+  ) {
+    super(message, 428, { message, reason });
+    this.name = "ConfirmationError";
+  }
+}
+
 export function isGitHubError(error: unknown): error is GitHubError {
   return error instanceof GitHubError;
 }
@@ -97,7 +163,48 @@ export function createEnhancedGitHubError(error: Error & { cause?: { code: strin
   return new GitHubError(error.message, 500, { message: error.message });
 }
 
-export function createGitHubError(status: number, response: any): GitHubError {
+/**
+ * Time at which a rate-limited request may be retried, from `retry-after`
+ * or `x-ratelimit-reset`, falling back to one minute from now
+ */
+export function rateLimitResetAt(headers?: Headers): Date {
+  const retryAfter = Number(headers?.get("retry-after"));
+  if (headers?.get("retry-after") && !isNaN(retryAfter)) {
+    return new Date(Date.now() + retryAfter * 1000);
+  }
+  const reset = Number(headers?.get("x-ratelimit-reset"));
+  if (headers?.get("x-ratelimit-reset") && !isNaN(reset)) {
+    return new Date(reset * 1000);
+  }
+  return new Date(Date.now() + 60000);
+}
+
+// GitHub answers both primary and secondary rate limits with 403 or 429
+function isRateLimited(response: any, headers?: Headers): boolean {
+  return !!headers?.get("retry-after")
+    || headers?.get("x-ratelimit-remaining") === "0"
+    || /rate limit/i.test(response?.message ?? "");
+}
+
+export function createGitHubError(status: number, response: any, headers?: Headers): GitHubError {
+  const error = createErrorForStatus(status, response, headers);
+  error.requestId = headers?.get("x-github-request-id") ?? undefined;
+  if (typeof response?.documentation_url === "string") {
+    error.documentationUrl = response.documentation_url;
+  }
+  return error;
+}
+
+function createErrorForStatus(status: number, response: any, headers?: Headers): GitHubError {
+  if ((status === 403 || status === 429) && isRateLimited(response, headers)) {
+    return new GitHubRateLimitError(
+      response?.message || "Rate limit exceeded",
+      rateLimitResetAt(headers),
+      status,
+      headers?.get("x-ratelimit-remaining") !== "0"
+    );
+  }
+
   switch (status) {
     case 401:
       return new GitHubAuthenticationError(response?.message);
@@ -114,10 +221,7 @@ export function createGitHubError(status: number, response: any): GitHubError {
         response
       );
     case 429:
-      return new GitHubRateLimitError(
-        response?.message,
-        new Date(response?.reset_at || Date.now() + 60000)
-      );
+      return new GitHubRateLimitError(response?.message, rateLimitResetAt(headers));
     default:
       return new GitHubError(
         response?.message || "GitHub API error",
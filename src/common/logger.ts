@@ -0,0 +1,216 @@
+import { AsyncLocalStorage } from "async_hooks";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { format as formatValues } from "util";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import { redactSecrets } from "./audit.js";
+
+export type LogLevel = LoggingLevel;
+export type LogFormat = "json" | "pretty";
+export type LogDestination = "stderr" | "file" | "mcp";
+
+type LogConfig = {
+  level: LogLevel;
+  format: LogFormat;
+  destinations: LogDestination[];
+  file: string;
+};
+
+// Syslog severities, as used by MCP logging, from least to most severe
+export const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"];
+const LOG_FORMATS: readonly LogFormat[] = ["json", "pretty"];
+const LOG_DESTINATIONS: readonly LogDestination[] = ["stderr", "file", "mcp"];
+
+const LOGGER_NAME = "github-actions-mcp";
+
+let config: LogConfig = {
+  level: "info",
+  format: "json",
+  destinations: ["stderr"],
+  file: path.join(os.tmpdir(), "github-actions-mcp", "server.log"),
+};
+
+// Servers that receive notifications/message, with the level their client asked for
+const logServers = new Map<Server, LogLevel | undefined>();
+
+// Server of the session a request is handled for, so its messages reach only that client
+const sessionServer = new AsyncLocalStorage<Server>();
+
+function isLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+function enabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Parse a level name, e.g. from the environment
+ *
+ * @throws Error when the name is not a known level
+ */
+export function parseLogLevel(value: string): LogLevel {
+  const level = value.toLowerCase() === "warn" ? "warning" : value.toLowerCase();
+  if (!isLevel(level)) {
+    throw new Error(`Unknown log level "${value}"; expected one of ${LOG_LEVELS.join(", ")}`);
+  }
+  return level;
+}
+
+/**
+ * Parse a log format name
+ *
+ * @throws Error when the name is not a known format
+ */
+export function parseLogFormat(value: string): LogFormat {
+  const logFormat = value.toLowerCase() as LogFormat;
+  if (!LOG_FORMATS.includes(logFormat)) {
+    throw new Error(`Unknown log format "${value}"; expected one of ${LOG_FORMATS.join(", ")}`);
+  }
+  return logFormat;
+}
+
+/**
+ * Parse a comma separated list of log destinations
+ *
+ * @throws Error when a destination is not known
+ */
+export function parseLogDestinations(value: string): LogDestination[] {
+  return value.split(",").map(item => item.trim().toLowerCase()).filter(Boolean).map(item => {
+    if (!(LOG_DESTINATIONS as readonly string[]).includes(item)) {
+      throw new Error(`Unknown log destination "${item}"; expected any of ${LOG_DESTINATIONS.join(", ")}`);
+    }
+    return item as LogDestination;
+  });
+}
+
+export function configureLogging(value: Partial<LogConfig>): void {
+  config = { ...config, ...value };
+}
+
+export function getLoggingConfig(): LogConfig {
+  return { ...config };
+}
+
+/**
+ * Send log messages to the server's client as MCP notifications/message. The
+ * client may raise or lower the level with logging/setLevel.
+ */
+export function attachLogServer(server: Server): void {
+  logServers.set(server, undefined);
+}
+
+export function detachLogServer(server: Server): void {
+  logServers.delete(server);
+}
+
+export function setClientLogLevel(server: Server, level: LogLevel): void {
+  logServers.set(server, level);
+}
+
+/**
+ * Run a function on behalf of a server's session. Messages logged meanwhile
+ * go only to that server's client instead of to every connected client.
+ */
+export function withLogServer<T>(server: Server, fn: () => T): T {
+  return sessionServer.run(server, fn);
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  return {
+    name: error.name,
+    message: error.message,
+    ...("status" in error && typeof error.status === "number" ? { status: error.status } : {}),
+    ...(error.stack ? { stack: error.stack } : {}),
+  };
+}
+
+// Errors lose their fields in JSON.stringify; secrets are redacted like in the audit log
+function prepareFields(fields: Record<string, unknown>): Record<string, unknown> {
+  const prepared = Object.fromEntries(Object.entries(fields).map(([key, value]) => [
+    key,
+    value instanceof Error ? serializeError(value) : value,
+  ]));
+  return redactSecrets(prepared) as Record<string, unknown>;
+}
+
+function formatLine(level: LogLevel, timestamp: string, message: string, fields: Record<string, unknown>): string {
+  if (config.format === "json") {
+    return JSON.stringify({ timestamp, level, logger: LOGGER_NAME, message, ...fields });
+  }
+  const { error, ...rest } = fields as { error?: { stack?: string, message?: string } };
+  const pairs = Object.entries(rest).map(([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`);
+  const line = `${timestamp} ${level.toUpperCase().padEnd(9)}${message}${pairs.length > 0 ? ` ${pairs.join(" ")}` : ""}`;
+  return error ? `${line}\n${error.stack ?? error.message}` : line;
+}
+
+function writeFile(line: string): void {
+  try {
+    fs.mkdirSync(path.dirname(config.file), { recursive: true });
+    fs.appendFileSync(config.file, `${line}\n`, { encoding: "utf8", mode: 0o600 });
+  } catch {
+    // A log file that cannot be written must not take the server down
+  }
+}
+
+function sendToClients(level: LogLevel, message: string, fields: Record<string, unknown>): void {
+  const current = sessionServer.getStore();
+  const servers = current ? [current] : [...logServers.keys()];
+  for (const server of servers) {
+    const clientLevel = logServers.get(server);
+    // A client that sets a level asks for messages even without the mcp destination
+    if (!(config.destinations.includes("mcp") || clientLevel) || !enabled(level, clientLevel ?? config.level)) {
+      continue;
+    }
+    // Messages logged before a client connects, or after it left, are dropped
+    server.sendLoggingMessage({
+      level,
+      logger: LOGGER_NAME,
+      data: Object.keys(fields).length > 0 ? { message, ...fields } : message,
+    }).catch(() => undefined);
+  }
+}
+
+function log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+  const prepared = prepareFields(fields);
+  sendToClients(level, message, prepared);
+  if (!enabled(level, config.level)) {
+    return;
+  }
+  const line = formatLine(level, new Date().toISOString(), message, prepared);
+  if (config.destinations.includes("stderr")) {
+    process.stderr.write(`${line}\n`);
+  }
+  if (config.destinations.includes("file")) {
+    writeFile(line);
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: Record<string, unknown>) => log("debug", message, fields),
+  info: (message: string, fields?: Record<string, unknown>) => log("info", message, fields),
+  notice: (message: string, fields?: Record<string, unknown>) => log("notice", message, fields),
+  warning: (message: string, fields?: Record<string, unknown>) => log("warning", message, fields),
+  error: (message: string, fields?: Record<string, unknown>) => log("error", message, fields),
+  critical: (message: string, fields?: Record<string, unknown>) => log("critical", message, fields),
+};
+
+/**
+ * Route the console through the logger. stdout carries the MCP protocol on
+ * the stdio transport, so nothing, including dependencies, may print there.
+ */
+export function captureConsole(): void {
+  const levels: Array<[keyof Pick<Console, "log" | "info" | "debug" | "trace" | "warn" | "error">, LogLevel]> = [
+    ["log", "info"],
+    ["info", "info"],
+    ["debug", "debug"],
+    ["trace", "debug"],
+    ["warn", "warning"],
+    ["error", "error"],
+  ];
+  for (const [method, level] of levels) {
+    console[method] = (...args: unknown[]) => log(level, formatValues(...args), { source: "console" });
+  }
+}
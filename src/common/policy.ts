@@ -0,0 +1,177 @@
+import fs from "fs";
+import yaml from "js-yaml";
+import { z } from "zod";
+import { PolicyViolationError } from "./errors.js";
+import { validateWorkflowId } from "./utils.js";
+
+// Dispatch rule schema
+const DispatchRuleSchema = z.object({
+  repository: z.string().optional().describe("owner/repo glob the rule applies to (default: all repositories)"),
+  workflow: z.string().describe("Workflow file name glob, e.g. deploy-staging.yml"),
+  refs: z.array(z.string()).optional().describe("Branch or tag globs the workflow may be dispatched on (default: any)"),
+});
+
+const AllowDenySchema = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+});
+
+const ConfirmationSchema = z.object({
+  tools: z.array(z.string()).optional().describe("Mutating tool name globs that need confirmation (default: all)"),
+  ttlSeconds: z.number().optional().describe("Lifetime of confirmation tokens in seconds (default: 300)"),
+});
+
+// Policy file schema
+export const PolicyConfigSchema = z.object({
+  readOnly: z.boolean().optional(),
+  tools: AllowDenySchema.optional(),
+  repositories: AllowDenySchema.optional(),
+  dispatch: z.array(DispatchRuleSchema).optional(),
+  confirmation: ConfirmationSchema.optional(),
+});
+
+export type PolicyConfig = z.infer<typeof PolicyConfigSchema>;
+export type DispatchRule = z.infer<typeof DispatchRuleSchema>;
+
+// Tools that change state on GitHub
+export const MUTATING_TOOLS = new Set([
+  "trigger_workflow",
+  "trigger_workflow_and_wait",
+  "cancel_workflow_run",
+  "rerun_workflow",
+  "delete_artifact",
+]);
+
+// Tools that dispatch workflows and are subject to the dispatch rules
+const DISPATCH_TOOLS = new Set(["trigger_workflow", "trigger_workflow_and_wait"]);
+
+let policy: PolicyConfig = {};
+
+/**
+ * Turn a glob into a regular expression. `*` matches within a path segment,
+ * `**` across segments, `?` a single character.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+function matchesAny(value: string, globs: string[]): boolean {
+  return globs.some(glob => globToRegExp(glob).test(value));
+}
+
+/**
+ * Load the policy from a JSON or YAML file
+ *
+ * @param file Path to the policy file
+ * @throws Error when the file cannot be read or does not match the policy schema
+ */
+export function loadPolicy(file: string): PolicyConfig {
+  const content = fs.readFileSync(file, "utf8");
+  const parsed = PolicyConfigSchema.safeParse(yaml.load(content) ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid policy file ${file}: ${parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+  }
+  policy = parsed.data;
+  return policy;
+}
+
+export function setPolicy(value: PolicyConfig): void {
+  policy = value;
+}
+
+export function getPolicy(): PolicyConfig {
+  return policy;
+}
+
+/**
+ * Whether a tool is exposed at all under the current policy
+ */
+export function isToolEnabled(tool: string): boolean {
+  if (policy.readOnly && MUTATING_TOOLS.has(tool)) {
+    return false;
+  }
+  if (policy.tools?.deny && matchesAny(tool, policy.tools.deny)) {
+    return false;
+  }
+  if (policy.tools?.allow && !matchesAny(tool, policy.tools.allow)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check a repository against the owner/repo allow and deny lists
+ *
+ * @throws PolicyViolationError when the repository is not allowed
+ */
+export function checkRepositoryAccess(tool: string, owner: string, repo: string): void {
+  const repository = `${owner}/${repo}`;
+  if (policy.repositories?.deny && matchesAny(repository, policy.repositories.deny)) {
+    throw new PolicyViolationError(`Repository ${repository} is denied by policy`, "repositories.deny", { tool, repository });
+  }
+  if (policy.repositories?.allow && !matchesAny(repository, policy.repositories.allow)) {
+    throw new PolicyViolationError(`Repository ${repository} is not in the policy allow-list`, "repositories.allow", { tool, repository });
+  }
+}
+
+/**
+ * Check a workflow dispatch against the dispatch rules. Without rules any
+ * dispatch is allowed; with rules the workflow file and ref must match one
+ * that applies to the repository.
+ *
+ * @throws PolicyViolationError when no rule allows the dispatch
+ */
+export function checkDispatch(tool: string, owner: string, repo: string, workflowId: string | number, ref: string): void {
+  if (!DISPATCH_TOOLS.has(tool) || !policy.dispatch) {
+    return;
+  }
+  const repository = `${owner}/${repo}`;
+  // Rules match the ID exactly as it goes into the API path
+  const workflow = validateWorkflowId(workflowId);
+  const shortRef = ref.replace(/^refs\/(heads|tags)\//, "");
+
+  if (/^\d+$/.test(workflow)) {
+    throw new PolicyViolationError(
+      "Dispatch rules match workflow file names; pass the file name instead of the numeric workflow ID",
+      "dispatch",
+      { tool, repository, workflow }
+    );
+  }
+
+  const allowed = policy.dispatch.some(rule =>
+    (!rule.repository || globToRegExp(rule.repository).test(repository))
+    && globToRegExp(rule.workflow).test(workflow)
+    && (!rule.refs || matchesAny(shortRef, rule.refs))
+  );
+  if (!allowed) {
+    throw new PolicyViolationError(
+      `Dispatching ${workflow} on ${shortRef} in ${repository} is not allowed by policy`,
+      "dispatch",
+      { tool, repository, workflow, ref: shortRef }
+    );
+  }
+}
+
+/**
+ * Whether calls to a tool need a confirmation before they run
+ */
+export function requiresConfirmation(tool: string): boolean {
+  if (!policy.confirmation || !MUTATING_TOOLS.has(tool)) {
+    return false;
+  }
+  return !policy.confirmation.tools || matchesAny(tool, policy.confirmation.tools);
+}
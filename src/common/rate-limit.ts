@@ -0,0 +1,209 @@
+import { createHash } from "crypto";
+import { GitHubError, GitHubRateLimitError } from "./errors.js";
+import { credentialIdentity } from "./auth.js";
+
+export type RateLimitBucket = {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: string;
+  observedAt: string;
+};
+
+// Requests sent to GitHub at the same time; further requests wait in a queue
+const MAX_CONCURRENT_REQUESTS = 8;
+
+// Below this share of the budget, requests are spread evenly until the reset
+const LOW_BUDGET_RATIO = 0.1;
+
+// Longest time a request waits for budget or a retry before failing instead
+const MAX_WAIT_MS = 60000;
+
+const MAX_RETRIES = 3;
+
+// GitHub tracks the budget per credential, so one token running out must not hold back the others
+type CredentialBudget = {
+  buckets: Map<string, RateLimitBucket & { resetMs: number }>;
+  nextRequestAt: number;
+  pausedUntil: number;
+  throttledRequests: number;
+  retriedRequests: number;
+};
+
+const budgets = new Map<string, CredentialBudget>();
+// Request slots are shared by all credentials
+const queue: Array<() => void> = [];
+let inFlight = 0;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Identify the credential of a request without keeping the secret. GitHub
+ * App tokens are identified by their installation, so the key survives token
+ * rotation; other tokens by a digest.
+ *
+ * @param authorization The Authorization header, if any
+ */
+export function credentialKey(authorization?: string): string {
+  if (!authorization) {
+    return "anonymous";
+  }
+  return credentialIdentity(authorization) ?? createHash("sha256").update(authorization).digest("hex").slice(0, 16);
+}
+
+function budgetFor(credential: string): CredentialBudget {
+  let budget = budgets.get(credential);
+  if (!budget) {
+    budget = { buckets: new Map(), nextRequestAt: 0, pausedUntil: 0, throttledRequests: 0, retriedRequests: 0 };
+    budgets.set(credential, budget);
+  }
+  return budget;
+}
+
+/**
+ * Update the tracked budget from the `x-ratelimit-*` headers of a response
+ */
+export function recordRateLimitHeaders(headers: Headers, credential: string): void {
+  const limit = Number(headers.get("x-ratelimit-limit"));
+  const remaining = Number(headers.get("x-ratelimit-remaining"));
+  const reset = Number(headers.get("x-ratelimit-reset"));
+  if (!headers.get("x-ratelimit-limit") || isNaN(limit) || isNaN(remaining) || isNaN(reset)) {
+    return;
+  }
+  const resource = headers.get("x-ratelimit-resource") ?? "core";
+  budgetFor(credential).buckets.set(resource, {
+    resource,
+    limit,
+    remaining,
+    used: Number(headers.get("x-ratelimit-used") ?? limit - remaining),
+    resetAt: new Date(reset * 1000).toISOString(),
+    resetMs: reset * 1000,
+    observedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Hold back the requests of a credential until the given time, e.g. after a secondary rate limit
+ */
+export function pauseRequests(until: Date, credential: string): void {
+  const budget = budgetFor(credential);
+  budget.pausedUntil = Math.max(budget.pausedUntil, until.getTime());
+}
+
+/**
+ * How long to wait before the next request to stay within the tracked budget
+ *
+ * @throws GitHubRateLimitError when the budget is exhausted for longer than we are willing to wait
+ */
+function budgetDelay(budget: CredentialBudget, resource: string): number {
+  const now = Date.now();
+  let delay = Math.max(0, budget.pausedUntil - now);
+
+  const bucket = budget.buckets.get(resource);
+  if (bucket && bucket.resetMs > now) {
+    if (bucket.remaining <= 0) {
+      if (bucket.resetMs - now > MAX_WAIT_MS) {
+        throw new GitHubRateLimitError(
+          `GitHub API rate limit for '${resource}' exhausted (${bucket.limit} requests per window)`,
+          new Date(bucket.resetMs)
+        );
+      }
+      delay = Math.max(delay, bucket.resetMs - now);
+    } else if (bucket.remaining < bucket.limit * LOW_BUDGET_RATIO) {
+      const interval = (bucket.resetMs - now) / bucket.remaining;
+      const start = Math.max(now, budget.nextRequestAt);
+      budget.nextRequestAt = start + interval;
+      delay = Math.max(delay, Math.min(start - now, MAX_WAIT_MS));
+    }
+    // Count the request against the budget before its response arrives
+    bucket.remaining--;
+  }
+  return delay;
+}
+
+/**
+ * Wait for a free request slot and enough budget of the credential
+ *
+ * @param credential The credential the request is sent with, from credentialKey
+ * @returns A function that releases the slot once the response has arrived
+ */
+export async function acquireRequestSlot(credential: string, resource = "core"): Promise<() => void> {
+  if (inFlight >= MAX_CONCURRENT_REQUESTS) {
+    await new Promise<void>(resolve => queue.push(resolve));
+  }
+  inFlight++;
+
+  let released = false;
+  const release = () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    inFlight--;
+    queue.shift()?.();
+  };
+
+  try {
+    const budget = budgetFor(credential);
+    const delay = budgetDelay(budget, resource);
+    if (delay > 0) {
+      budget.throttledRequests++;
+      await sleep(delay);
+    }
+  } catch (error) {
+    release();
+    throw error;
+  }
+  return release;
+}
+
+/**
+ * Decide whether a failed request should be sent again
+ *
+ * Secondary rate limits are retried after `retry-after` (or the reset time)
+ * and pause the other requests of the same credential for that long too. Server errors are retried
+ * with exponential backoff, but only for requests that are safe to repeat.
+ *
+ * @returns The delay in milliseconds before retrying, or null to give up
+ */
+export function retryDelay(error: unknown, method: string, attempt: number, credential: string): number | null {
+  if (attempt >= MAX_RETRIES || !(error instanceof GitHubError)) {
+    return null;
+  }
+
+  const backoff = 1000 * 2 ** attempt + Math.floor(Math.random() * 500);
+
+  if (error instanceof GitHubRateLimitError) {
+    const wait = Math.max(error.resetAt.getTime() - Date.now(), error.secondary ? backoff : 0);
+    if (wait > MAX_WAIT_MS) {
+      return null;
+    }
+    pauseRequests(new Date(Date.now() + wait), credential);
+    budgetFor(credential).retriedRequests++;
+    return wait;
+  }
+
+  if (error.status >= 500 && ["GET", "HEAD"].includes(method.toUpperCase())) {
+    budgetFor(credential).retriedRequests++;
+    return backoff;
+  }
+  return null;
+}
+
+/**
+ * Snapshot of the tracked budget of a credential and the shared request queue
+ */
+export function getRateLimitState(credential: string) {
+  const budget = budgetFor(credential);
+  return {
+    buckets: [...budget.buckets.values()].map(({ resetMs, ...bucket }) => bucket),
+    inFlight,
+    queued: queue.length,
+    pausedUntil: budget.pausedUntil > Date.now() ? new Date(budget.pausedUntil).toISOString() : null,
+    throttledRequests: budget.throttledRequests,
+    retriedRequests: budget.retriedRequests,
+  };
+}
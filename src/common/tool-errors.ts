@@ -0,0 +1,182 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ZodError } from "zod";
+import {
+  ConfirmationError,
+  GitHubAuthenticationError,
+  GitHubConflictError,
+  GitHubError,
+  GitHubNetworkError,
+  GitHubPermissionError,
+  GitHubRateLimitError,
+  GitHubResourceNotFoundError,
+  GitHubTimeoutError,
+  GitHubValidationError,
+  InvalidArgumentError,
+  PolicyViolationError,
+  WorkflowDefinitionError,
+  WorkflowInputValidationError,
+} from "./errors.js";
+import { lastGitHubRequestId } from "./audit.js";
+import { MUTATING_TOOLS } from "./policy.js";
+
+// JSON-RPC error code for unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+export type ToolErrorCode =
+  | "invalid_argument"
+  | "invalid_workflow_inputs"
+  | "invalid_workflow"
+  | "validation_failed"
+  | "authentication_failed"
+  | "permission_denied"
+  | "not_found"
+  | "conflict"
+  | "rate_limited"
+  | "timeout"
+  | "network_error"
+  | "policy_violation"
+  | "confirmation_failed"
+  | "unexpected_response"
+  | "cancelled"
+  | "github_error"
+  | "internal_error";
+
+export type ToolError = {
+  error: ToolErrorCode;
+  message: string;
+  status?: number;
+  retryable: boolean;
+  retryAfter?: string;
+  requestId?: string;
+  documentationUrl?: string;
+  suggestion: string;
+  details?: unknown;
+};
+
+// Tools that read workflow files through the contents API
+const CONTENTS_TOOLS = new Set([
+  "get_workflow_yaml",
+  "get_workflow_dispatch_inputs",
+  "get_workflow_triggers",
+  "get_workflow_schedule",
+  "lint_workflow",
+]);
+
+function requiredPermission(tool: string): string {
+  if (MUTATING_TOOLS.has(tool)) {
+    return "`actions:write` (classic tokens: `repo`, plus `workflow` to dispatch)";
+  }
+  if (CONTENTS_TOOLS.has(tool)) {
+    return "`contents:read` (classic tokens: `repo` for private repositories)";
+  }
+  return "`actions:read` (classic tokens: `repo` for private repositories)";
+}
+
+function classify(error: unknown, tool: string): Pick<ToolError, "error" | "retryable" | "suggestion"> {
+  if (error instanceof PolicyViolationError) {
+    return { error: "policy_violation", retryable: false, suggestion: "The server's access policy blocks this call; ask an operator to change the policy if it is needed" };
+  }
+  if (error instanceof ConfirmationError) {
+    return { error: "confirmation_failed", retryable: false, suggestion: "Call the tool with dryRun: true for a new preview and confirmation token, then repeat the call with the same arguments" };
+  }
+  if (error instanceof InvalidArgumentError) {
+    return { error: "invalid_argument", retryable: false, suggestion: `Correct the \`${error.argument}\` argument and call the tool again` };
+  }
+  if (error instanceof WorkflowInputValidationError) {
+    return { error: "invalid_workflow_inputs", retryable: false, suggestion: "Use get_workflow_dispatch_inputs to see the inputs the workflow declares and fix the listed inputs" };
+  }
+  if (error instanceof WorkflowDefinitionError) {
+    return { error: "invalid_workflow", retryable: false, suggestion: "Use lint_workflow to check the workflow file, and make sure it declares the trigger this call needs" };
+  }
+  if (error instanceof GitHubValidationError) {
+    return { error: "validation_failed", retryable: false, suggestion: "Check the arguments against the details GitHub returned" };
+  }
+  if (error instanceof GitHubAuthenticationError) {
+    return { error: "authentication_failed", retryable: false, suggestion: "Check that the configured token or GitHub App credentials are valid and have not expired or been revoked" };
+  }
+  if (error instanceof GitHubRateLimitError) {
+    return { error: "rate_limited", retryable: true, suggestion: "Wait until retryAfter before calling again; get_rate_limit_status shows the remaining budget" };
+  }
+  if (error instanceof GitHubPermissionError) {
+    return { error: "permission_denied", retryable: false, suggestion: `Check that the token has the ${requiredPermission(tool)} permission for this repository` };
+  }
+  if (error instanceof GitHubResourceNotFoundError) {
+    return {
+      error: "not_found",
+      retryable: false,
+      suggestion: "Check the owner, repository and IDs; GitHub also answers 404 when the token cannot see a private repository, "
+        + `so check that it has the ${requiredPermission(tool)} permission`,
+    };
+  }
+  if (error instanceof GitHubConflictError) {
+    return { error: "conflict", retryable: false, suggestion: "The resource is not in a state that allows this action; fetch its current state before trying again" };
+  }
+  if (error instanceof GitHubTimeoutError) {
+    return { error: "timeout", retryable: true, suggestion: "Retry the call; ask for less data, e.g. a smaller page, if it keeps timing out" };
+  }
+  if (error instanceof GitHubNetworkError) {
+    return { error: "network_error", retryable: true, suggestion: "Check that the server can reach the GitHub API, including proxy and CA bundle settings, then retry" };
+  }
+  if (error instanceof GitHubError) {
+    return error.status >= 500
+      ? { error: "github_error", retryable: true, suggestion: "GitHub failed to handle the request; retry later and check githubstatus.com if it persists" }
+      : { error: "github_error", retryable: false, suggestion: "Check the message and documentation URL for what GitHub rejected" };
+  }
+  if (error instanceof ZodError) {
+    return { error: "unexpected_response", retryable: false, suggestion: "GitHub returned data in an unexpected shape; report it with the request ID" };
+  }
+  return { error: "internal_error", retryable: false, suggestion: "Report the error with the message and request ID" };
+}
+
+/**
+ * Describe an error thrown by a tool as the JSON body of an error result
+ *
+ * @param error The thrown error
+ * @param tool The tool that was called, used to name the permission it needs
+ * @param cancelled Whether the client cancelled the call
+ */
+export function describeToolError(error: unknown, tool: string, cancelled = false): ToolError {
+  const message = error instanceof ZodError
+    ? `Unexpected response from GitHub: ${error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`
+    : error instanceof Error ? error.message : String(error);
+  const classification = cancelled
+    ? { error: "cancelled" as const, retryable: true, suggestion: "The call was cancelled; repeat it if the result is still needed" }
+    : classify(error, tool);
+  const githubError = error instanceof GitHubError ? error : undefined;
+  const requestId = githubError?.requestId ?? lastGitHubRequestId();
+  // The message is already at the top level; keep what GitHub or the check added to it
+  const { message: _message, ...details } = (githubError?.response && typeof githubError.response === "object"
+    ? githubError.response
+    : {}) as Record<string, unknown>;
+
+  return {
+    error: classification.error,
+    message,
+    ...(githubError ? { status: githubError.status } : {}),
+    retryable: classification.retryable,
+    ...(error instanceof GitHubRateLimitError ? { retryAfter: error.resetAt.toISOString() } : {}),
+    ...(requestId ? { requestId } : {}),
+    ...(githubError?.documentationUrl ? { documentationUrl: githubError.documentationUrl } : {}),
+    suggestion: classification.suggestion,
+    ...(Object.keys(details).length > 0 ? { details } : {}),
+  };
+}
+
+/**
+ * Turn an error of a resource read or prompt into a protocol error whose
+ * data carries the same details as a tool error result
+ *
+ * @param error The thrown error
+ * @param action What failed, e.g. "Failed to read gha://octo/app/runs/1"
+ * @param tool The tool with the same permissions, used for the suggestion
+ */
+export function toProtocolError(error: unknown, action: string, tool: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  const described = describeToolError(error, tool);
+  const code = error instanceof GitHubResourceNotFoundError ? RESOURCE_NOT_FOUND
+    : error instanceof InvalidArgumentError || error instanceof PolicyViolationError ? ErrorCode.InvalidParams
+    : ErrorCode.InternalError;
+  return new McpError(code, `${action}: ${described.message}`, described);
+}
@@ -127,6 +127,32 @@ export const JobsSchema = z.object({
   jobs: z.array(JobSchema),
 }).passthrough();
 
+// GitHub Artifact types
+export const ArtifactSchema = z.object({
+  id: z.number(),
+  node_id: z.string(),
+  name: z.string(),
+  size_in_bytes: z.number(),
+  url: z.string(),
+  archive_download_url: z.string(),
+  expired: z.boolean(),
+  created_at: z.string().nullable(),
+  expires_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+  workflow_run: z.object({
+    id: z.number().optional(),
+    repository_id: z.number().optional(),
+    head_repository_id: z.number().optional(),
+    head_branch: z.string().optional(),
+    head_sha: z.string().optional(),
+  }).passthrough().nullable().optional(),
+}).passthrough();
+
+export const ArtifactsSchema = z.object({
+  total_count: z.number(),
+  artifacts: z.array(ArtifactSchema),
+}).passthrough();
+
 // GitHub Workflow types
 export const WorkflowSchema = z.object({
   id: z.number(),
@@ -168,6 +194,8 @@ export type WorkflowRun = z.infer<typeof WorkflowRunSchema>;
 export type WorkflowRunsResponse = z.infer<typeof WorkflowRunsSchema>;
 export type Job = z.infer<typeof JobSchema>;
 export type JobsResponse = z.infer<typeof JobsSchema>;
+export type Artifact = z.infer<typeof ArtifactSchema>;
+export type ArtifactsResponse = z.infer<typeof ArtifactsSchema>;
 export type Workflow = z.infer<typeof WorkflowSchema>;
 export type WorkflowsResponse = z.infer<typeof WorkflowsSchema>;
 export type WorkflowUsage = z.infer<typeof WorkflowUsageSchema>;
\ No newline at end of file
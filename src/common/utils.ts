@@ -1,20 +1,30 @@
+import fs from "fs";
+import tls from "tls";
 import { getUserAgent } from "universal-user-agent";
-import { createGitHubError, GitHubTimeoutError, GitHubNetworkError, GitHubError, createEnhancedGitHubError } from "./errors.js";
+import { Agent, setGlobalDispatcher } from "undici";
+import { createGitHubError, GitHubTimeoutError, GitHubNetworkError, GitHubError, InvalidArgumentError, createEnhancedGitHubError } from "./errors.js";
 import { VERSION } from "./version.js";
+import { acquireRequestSlot, credentialKey, recordRateLimitHeaders, retryDelay } from "./rate-limit.js";
+import { cachedRequest, invalidateCachedRepository, SentResponse } from "./cache.js";
+import { resolveAuthorization } from "./auth.js";
+import { recordGitHubRequestId } from "./audit.js";
 
 type RequestOptions = {
   method?: string;
   body?: unknown;
   headers?: Record<string, string>;
+  responseType?: "buffer";
 }
 
-async function parseResponseBody(response: Response): Promise<unknown> {
+async function parseResponseBody(response: Response, responseType?: "buffer"): Promise<unknown> {
+  if (responseType === "buffer" && response.ok) {
+    return Buffer.from(await response.arrayBuffer());
+  }
   const contentType = response.headers.get("content-type");
   if (contentType?.includes("application/json")) {
     try {
       return await response.json();
     } catch (error) {
-      console.error("Error parsing JSON response:", error);
       throw new Error(`Error parsing JSON response: ${error}`);
     }
   }
@@ -31,16 +41,71 @@ export function buildUrl(baseUrl: string, params: Record<string, string | number
   return url.toString();
 }
 
+const DEFAULT_API_URL = "https://api.github.com";
+
+/**
+ * Normalize a GitHub API base URL
+ * 
+ * `github.com` maps to `api.github.com`. Any other host without a path is
+ * taken to be a GitHub Enterprise Server, whose REST API lives under `/api/v3`.
+ * 
+ * @param value The configured URL
+ * @returns The base URL without a trailing slash
+ * @throws Error when the URL is malformed or does not use https
+ */
+export function normalizeApiUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new Error(`Invalid GitHub API URL: ${value}`);
+  }
+  if (url.protocol !== "https:") {
+    throw new Error(`GitHub API URL must use https: ${value}`);
+  }
+  if (url.hostname === "github.com") {
+    return DEFAULT_API_URL;
+  }
+  const pathname = url.pathname.replace(/\/+$/, "");
+  if (!pathname && url.hostname !== "api.github.com") {
+    return `${url.origin}/api/v3`;
+  }
+  return `${url.origin}${pathname}`;
+}
+
+let apiBaseUrl = DEFAULT_API_URL;
+
+export function setApiBaseUrl(value: string): void {
+  apiBaseUrl = normalizeApiUrl(value);
+}
+
+export function getApiBaseUrl(): string {
+  return apiBaseUrl;
+}
+
+/**
+ * Build a URL on the configured GitHub API, e.g. `apiUrl("/repos/o/r")`
+ */
+export function apiUrl(path: string): string {
+  return `${apiBaseUrl}${path}`;
+}
+
+/**
+ * Trust the certificates in a PEM bundle in addition to the default roots,
+ * for GitHub Enterprise Server instances behind an internal CA
+ * 
+ * @param file Path to the PEM file
+ */
+export function useCaBundle(file: string): void {
+  const ca = fs.readFileSync(file, "utf8");
+  setGlobalDispatcher(new Agent({ connect: { ca: [...tls.rootCertificates, ca] } }));
+}
+
 const USER_AGENT = `github-actions-mcp/v${VERSION} ${getUserAgent()}`;
 
 // Default timeout for GitHub API requests (30 seconds)
 const DEFAULT_TIMEOUT = 30000;
 
-// Rate limiting constants
-const MAX_REQUESTS_PER_MINUTE = 60; // GitHub API rate limit is typically 5000/hour for authenticated requests
-let requestCount = 0;
-let requestCountResetTime = Date.now() + 60000;
-
 /**
  * Make a request to the GitHub API with security enhancements
  * 
@@ -52,21 +117,24 @@ export async function githubRequest(
   url: string,
   options: RequestOptions & { timeout?: number } = {}
 ): Promise<unknown> {
-  // Implement basic rate limiting
-  if (Date.now() > requestCountResetTime) {
-    requestCount = 0;
-    requestCountResetTime = Date.now() + 60000;
-  }
-  
-  if (requestCount >= MAX_REQUESTS_PER_MINUTE) {
-    const waitTime = requestCountResetTime - Date.now();
-    throw new Error(`Rate limit exceeded. Please try again in ${Math.ceil(waitTime / 1000)} seconds.`);
-  }
-  requestCount++;
+  const { body } = await githubRequestWithHeaders(url, options);
+  return body;
+}
 
+/**
+ * Make a request to the GitHub API and return the response headers along with the body
+ * 
+ * @param url The URL to send the request to
+ * @param options Request options including method, body, headers, and timeout
+ * @returns The response body and headers
+ */
+export async function githubRequestWithHeaders(
+  url: string,
+  options: RequestOptions & { timeout?: number } = {}
+): Promise<{ body: unknown, headers: Headers }> {
   // Validate URL to ensure it's a GitHub API URL (security measure)
-  if (!url.startsWith('https://api.github.com/')) {
-    throw new Error('Invalid GitHub API URL. Only https://api.github.com/ URLs are allowed.');
+  if (!url.startsWith(`${apiBaseUrl}/`)) {
+    throw new Error(`Invalid GitHub API URL. Only ${apiBaseUrl}/ URLs are allowed.`);
   }
 
   const headers: Record<string, string> = {
@@ -76,10 +144,55 @@ export async function githubRequest(
     ...options.headers,
   };
 
-  if (process.env.GITHUB_PERSONAL_ACCESS_TOKEN) {
-    headers["Authorization"] = `Bearer ${process.env.GITHUB_PERSONAL_ACCESS_TOKEN}`;
+  // Requests made while authenticating carry their own credentials
+  if (!headers["Authorization"]) {
+    const authorization = await resolveAuthorization(url);
+    if (authorization) {
+      headers["Authorization"] = authorization;
+    }
+  }
+
+  const method = (options.method || "GET").toUpperCase();
+  const send = async (requestHeaders: Record<string, string>): Promise<SentResponse> => {
+    const credential = credentialKey(requestHeaders["Authorization"]);
+    for (let attempt = 0; ; attempt++) {
+      const release = await acquireRequestSlot(credential);
+      try {
+        return await sendRequest(url, requestHeaders, options);
+      } catch (error: unknown) {
+        const delay = retryDelay(error, method, attempt, credential);
+        if (delay === null) {
+          throw error;
+        }
+        release();
+        await new Promise(resolve => setTimeout(resolve, delay));
+      } finally {
+        release();
+      }
+    }
+  };
+
+  // Binary downloads are large and served from short-lived redirect URLs, so they bypass the cache
+  if (method === "GET" && !options.responseType) {
+    return cachedRequest(url, headers, send);
   }
 
+  try {
+    const response = await send(headers);
+    return { body: response.body, headers: response.headers };
+  } finally {
+    if (method !== "GET") {
+      invalidateCachedRepository(url);
+    }
+  }
+}
+
+// Send a single request and map failures to GitHub errors
+async function sendRequest(
+  url: string,
+  headers: Record<string, string>,
+  options: RequestOptions & { timeout?: number }
+): Promise<SentResponse> {
   // Set up request timeout
   const timeout = options.timeout || DEFAULT_TIMEOUT;
   const controller = new AbortController();
@@ -92,14 +205,21 @@ export async function githubRequest(
       body: options.body ? JSON.stringify(options.body) : undefined,
       signal: controller.signal
     });
+    recordRateLimitHeaders(response.headers, credentialKey(headers["Authorization"]));
+    recordGitHubRequestId(response.headers.get("x-github-request-id"));
+
+    // Answer to a conditional request; the caller still holds the body
+    if (response.status === 304) {
+      return { status: response.status, body: undefined, headers: response.headers };
+    }
 
-    const responseBody = await parseResponseBody(response);
+    const responseBody = await parseResponseBody(response, options.responseType);
 
     if (!response.ok) {
-      throw createGitHubError(response.status, responseBody);
+      throw createGitHubError(response.status, responseBody, response.headers);
     }
 
-    return responseBody;
+    return { status: response.status, body: responseBody, headers: response.headers };
   } catch (error: unknown) {
     if ((error as Error).name === 'AbortError') {
       throw new GitHubTimeoutError(`Request timeout after ${timeout}ms`, timeout);
@@ -118,18 +238,99 @@ export async function githubRequest(
   }
 }
 
+export type PaginationOptions = {
+  all?: boolean;
+  maxItems?: number;
+};
+
+export type PaginationInfo = {
+  total_count: number;
+  has_more: boolean;
+  next_page: number | null;
+};
+
+// Upper bound for `all` without an explicit `maxItems`
+const DEFAULT_MAX_ITEMS = 1000;
+
+/**
+ * Parse a `Link` header into a map of relation to URL
+ */
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  for (const part of (header ?? "").split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+    if (match) {
+      links[match[2]] = match[1];
+    }
+  }
+  return links;
+}
+
+function pageOf(url: string): number {
+  return Number(new URL(url).searchParams.get("page") ?? 1);
+}
+
+/**
+ * Fetch a list endpoint, following `Link: rel="next"` headers
+ * 
+ * Without `all` or `maxItems` only the page in `url` is fetched. Otherwise
+ * pages are collected until the list ends or the cap is reached. When the
+ * cap falls inside a page, `next_page` points at that page again so that no
+ * item is skipped.
+ * 
+ * @param url The URL of the first page
+ * @param itemsKey The property of the response body holding the items
+ * @param options Whether to collect all pages and the maximum number of items
+ * @returns The items of all fetched pages and where to continue
+ */
+export async function githubPaginate(
+  url: string,
+  itemsKey: string,
+  options: PaginationOptions = {}
+): Promise<PaginationInfo & { items: unknown[] }> {
+  const limit = options.maxItems ?? (options.all ? DEFAULT_MAX_ITEMS : undefined);
+  const items: unknown[] = [];
+  let totalCount = 0;
+  let currentUrl = url;
+
+  // Collect with as few requests as possible unless a page size was requested
+  if (limit !== undefined && !new URL(url).searchParams.has("per_page")) {
+    currentUrl = buildUrl(url, { per_page: 100 });
+  }
+
+  while (true) {
+    const { body, headers } = await githubRequestWithHeaders(currentUrl);
+    const page = (body ?? {}) as Record<string, unknown>;
+    const pageItems = Array.isArray(page[itemsKey]) ? page[itemsKey] as unknown[] : [];
+    const nextUrl = parseLinkHeader(headers.get("link")).next;
+    totalCount = typeof page.total_count === "number" ? page.total_count : items.length + pageItems.length;
+
+    const room = limit === undefined ? pageItems.length : limit - items.length;
+    items.push(...pageItems.slice(0, room));
+
+    if (pageItems.length > room) {
+      return { items, total_count: totalCount, has_more: true, next_page: pageOf(currentUrl) };
+    }
+    if (!nextUrl || limit === undefined || items.length >= limit) {
+      return { items, total_count: totalCount, has_more: !!nextUrl, next_page: nextUrl ? pageOf(nextUrl) : null };
+    }
+    currentUrl = nextUrl;
+  }
+}
+
 export function validateRepositoryName(name: string): string {
   const sanitized = name.trim().toLowerCase();
   if (!sanitized) {
-    throw new Error("Repository name cannot be empty");
+    throw new InvalidArgumentError("Repository name cannot be empty", "repo");
   }
   if (!/^[a-z0-9_.-]+$/.test(sanitized)) {
-    throw new Error(
-      "Repository name can only contain lowercase letters, numbers, hyphens, periods, and underscores"
+    throw new InvalidArgumentError(
+      "Repository name can only contain lowercase letters, numbers, hyphens, periods, and underscores",
+      "repo"
     );
   }
   if (sanitized.startsWith(".") || sanitized.endsWith(".")) {
-    throw new Error("Repository name cannot start or end with a period");
+    throw new InvalidArgumentError("Repository name cannot start or end with a period", "repo");
   }
   return sanitized;
 }
@@ -137,12 +338,28 @@ export function validateRepositoryName(name: string): string {
 export function validateOwnerName(owner: string): string {
   const sanitized = owner.trim().toLowerCase();
   if (!sanitized) {
-    throw new Error("Owner name cannot be empty");
+    throw new InvalidArgumentError("Owner name cannot be empty", "owner");
   }
   if (!/^[a-z0-9](?:[a-z0-9]|-(?=[a-z0-9])){0,38}$/.test(sanitized)) {
-    throw new Error(
-      "Owner name must start with a letter or number and can contain up to 39 characters"
+    throw new InvalidArgumentError(
+      "Owner name must start with a letter or number and can contain up to 39 characters",
+      "owner"
+    );
+  }
+  return sanitized;
+}
+
+export function validateWorkflowId(workflowId: string | number): string {
+  const sanitized = String(workflowId).trim();
+  if (!sanitized) {
+    throw new InvalidArgumentError("Workflow ID cannot be empty", "workflowId");
+  }
+  // The ID goes into API paths as a single segment
+  if (/[/\\?#%]/.test(sanitized) || sanitized === "." || sanitized === "..") {
+    throw new InvalidArgumentError(
+      "Workflow ID must be a numeric ID or a workflow file name such as ci.yml, without /, \\, ?, # or %",
+      "workflowId"
     );
   }
   return sanitized;
-}
\ No newline at end of file
+}
@@ -0,0 +1,186 @@
+import yaml from "js-yaml";
+
+export type WorkflowInput = {
+  name: string;
+  description?: string;
+  type?: string;
+  required?: boolean;
+  default?: unknown;
+  options?: unknown[];
+  [key: string]: unknown;
+};
+
+export type WorkflowCallOutput = {
+  name: string;
+  description?: string;
+  value?: string;
+};
+
+export type WorkflowCallSecret = {
+  name: string;
+  description?: string;
+  required?: boolean;
+};
+
+export type WorkflowTrigger = {
+  event: string;
+  types?: string[];
+  branches?: string[];
+  branchesIgnore?: string[];
+  tags?: string[];
+  tagsIgnore?: string[];
+  paths?: string[];
+  pathsIgnore?: string[];
+  schedules?: string[];
+  workflows?: string[];
+  inputs?: WorkflowInput[];
+  outputs?: WorkflowCallOutput[];
+  secrets?: WorkflowCallSecret[];
+};
+
+export type WorkflowJobDefinition = {
+  id: string;
+  name?: string;
+  needs: string[];
+  runsOn?: unknown;
+  uses?: string;
+  hasMatrix: boolean;
+};
+
+export type WorkflowDefinition = {
+  name?: string;
+  triggers: WorkflowTrigger[];
+  jobs: WorkflowJobDefinition[];
+  document: Record<string, any>;
+};
+
+function isMapping(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function toStringArray(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return (Array.isArray(value) ? value : [value]).map(item => String(item));
+}
+
+function toNamedEntries<T extends { name: string }>(value: unknown): T[] | undefined {
+  if (!isMapping(value)) {
+    return undefined;
+  }
+  return Object.entries(value).map(([name, meta]) => ({ name, ...(isMapping(meta) ? meta : {}) }) as T);
+}
+
+function normalizeTrigger(event: string, config: unknown): WorkflowTrigger {
+  const trigger: WorkflowTrigger = { event };
+
+  // schedule is a list of { cron } entries rather than a mapping
+  if (event === "schedule") {
+    trigger.schedules = (Array.isArray(config) ? config : [])
+      .filter(entry => isMapping(entry) && entry.cron !== undefined)
+      .map(entry => String(entry.cron));
+    return trigger;
+  }
+
+  if (!isMapping(config)) {
+    return trigger;
+  }
+
+  const fields: Array<[keyof WorkflowTrigger, string]> = [
+    ["types", "types"],
+    ["branches", "branches"],
+    ["branchesIgnore", "branches-ignore"],
+    ["tags", "tags"],
+    ["tagsIgnore", "tags-ignore"],
+    ["paths", "paths"],
+    ["pathsIgnore", "paths-ignore"],
+    ["workflows", "workflows"],
+  ];
+  for (const [field, key] of fields) {
+    const value = toStringArray(config[key]);
+    if (value) {
+      (trigger as Record<string, unknown>)[field] = value;
+    }
+  }
+
+  const inputs = toNamedEntries<WorkflowInput>(config.inputs);
+  if (inputs) {
+    trigger.inputs = inputs;
+  }
+  const outputs = toNamedEntries<WorkflowCallOutput>(config.outputs);
+  if (outputs) {
+    trigger.outputs = outputs;
+  }
+  const secrets = toNamedEntries<WorkflowCallSecret>(config.secrets);
+  if (secrets) {
+    trigger.secrets = secrets;
+  }
+
+  return trigger;
+}
+
+/**
+ * Normalize the `on:` section of a workflow into a list of triggers
+ *
+ * Accepts the string (`on: push`), list (`on: [push, workflow_dispatch]`) and
+ * mapping forms. A bare `on` key that a YAML 1.1 parser turned into `true` is
+ * read as well.
+ */
+export function parseTriggers(document: Record<string, any>): WorkflowTrigger[] {
+  const on = document.on ?? document["true"];
+  if (typeof on === "string") {
+    return [normalizeTrigger(on, undefined)];
+  }
+  if (Array.isArray(on)) {
+    return on.map(event => normalizeTrigger(String(event), undefined));
+  }
+  if (isMapping(on)) {
+    return Object.entries(on).map(([event, config]) => normalizeTrigger(event, config));
+  }
+  return [];
+}
+
+/**
+ * Normalize the `jobs:` section of a workflow, with `needs` always a list
+ */
+export function parseJobs(document: Record<string, any>): WorkflowJobDefinition[] {
+  if (!isMapping(document.jobs)) {
+    return [];
+  }
+  return Object.entries(document.jobs).map(([id, job]) => {
+    const config = isMapping(job) ? job : {};
+    return {
+      id,
+      name: typeof config.name === "string" ? config.name : undefined,
+      needs: toStringArray(config.needs) ?? [],
+      runsOn: config["runs-on"],
+      uses: typeof config.uses === "string" ? config.uses : undefined,
+      hasMatrix: isMapping(config.strategy) && config.strategy.matrix !== undefined,
+    };
+  });
+}
+
+/**
+ * Parse the YAML of a workflow file
+ *
+ * @param content The raw workflow YAML
+ * @returns The workflow name, its normalized triggers and jobs, and the parsed document
+ * @throws Error when the YAML cannot be parsed or is not a mapping
+ */
+export function parseWorkflowYaml(content: string): WorkflowDefinition {
+  const document = yaml.load(content);
+  if (!isMapping(document)) {
+    throw new Error("Workflow YAML must be a mapping");
+  }
+  return {
+    name: typeof document.name === "string" ? document.name : undefined,
+    triggers: parseTriggers(document),
+    jobs: parseJobs(document),
+    document,
+  };
+}
+
+export function findTrigger(definition: WorkflowDefinition, event: string): WorkflowTrigger | undefined {
+  return definition.triggers.find(trigger => trigger.event === event);
+}
@@ -0,0 +1,102 @@
+import { inflateRawSync } from "zlib";
+
+export type ZipEntry = {
+  name: string;
+  size: number;
+  data: Buffer;
+};
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+
+// Upper bound for the unpacked size of an archive unless the caller sets one
+const DEFAULT_MAX_UNPACKED_BYTES = 512 * 1024 * 1024;
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The EOCD record is at least 22 bytes and may be followed by a comment of up to 64KB
+  const minOffset = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= minOffset; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error("Invalid zip archive: end of central directory not found");
+}
+
+/**
+ * Unpack a zip archive held in memory
+ *
+ * Only the stored and deflate compression methods are supported, which covers
+ * the archives produced by GitHub for workflow logs and artifacts. Entries
+ * are never inflated beyond the size the central directory records for them,
+ * so a crafted archive cannot unpack to more than `maxBytes`.
+ *
+ * @param buffer The raw zip archive
+ * @param maxBytes Maximum total size of the unpacked entries
+ * @returns The file entries of the archive (directories are skipped)
+ * @throws Error when the archive is corrupt or unpacks to more than `maxBytes`
+ */
+export function unzip(buffer: Buffer, maxBytes = DEFAULT_MAX_UNPACKED_BYTES): ZipEntry[] {
+  const eocd = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error("Invalid zip archive: ZIP64 archives are not supported");
+  }
+
+  const entries: ZipEntry[] = [];
+  let unpackedBytes = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error("Invalid zip archive: corrupt central directory");
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) {
+      continue;
+    }
+
+    unpackedBytes += size;
+    if (unpackedBytes > maxBytes) {
+      throw new Error(`Zip archive unpacks to more than ${maxBytes} bytes`);
+    }
+
+    if (buffer.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new Error(`Invalid zip archive: corrupt local header for ${name}`);
+    }
+    const dataStart = localHeaderOffset + 30 +
+      buffer.readUInt16LE(localHeaderOffset + 26) +
+      buffer.readUInt16LE(localHeaderOffset + 28);
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === 0) {
+      data = compressed;
+    } else if (method === 8) {
+      try {
+        data = inflateRawSync(compressed, { maxOutputLength: Math.max(1, size) });
+      } catch {
+        throw new Error(`Invalid zip archive: ${name} is corrupt or does not match its recorded size of ${size} bytes`);
+      }
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+    if (data.length !== size) {
+      throw new Error(`Invalid zip archive: ${name} is corrupt or does not match its recorded size of ${size} bytes`);
+    }
+
+    entries.push({ name, size, data });
+  }
+
+  return entries;
+}
@@ -0,0 +1,104 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CompleteRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { apiUrl, buildUrl, githubRequest, validateOwnerName, validateRepositoryName } from "./common/utils.js";
+import { logger } from "./common/logger.js";
+import { checkRepositoryAccess, isToolEnabled } from "./common/policy.js";
+import { listWorkflows } from "./operations/actions.js";
+
+// The protocol allows at most 100 values per completion
+const MAX_COMPLETIONS = 100;
+
+type Named = { login?: string, name?: string, owner?: { login?: string } };
+
+function isAllowed(owner: string, repo: string): boolean {
+  try {
+    checkRepositoryAccess("completion", validateOwnerName(owner), validateRepositoryName(repo));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matching(values: string[], prefix: string): string[] {
+  const lowerPrefix = prefix.toLowerCase();
+  return [...new Set(values)].filter(value => value.toLowerCase().startsWith(lowerPrefix)).sort();
+}
+
+// The authenticated user and their organizations
+async function completeOwner(value: string): Promise<string[]> {
+  const [user, orgs] = await Promise.all([
+    githubRequest(apiUrl("/user")) as Promise<Named>,
+    githubRequest(buildUrl(apiUrl("/user/orgs"), { per_page: 100 })) as Promise<Named[]>,
+  ]);
+  return matching([user.login, ...orgs.map(org => org.login)].filter((login): login is string => !!login), value);
+}
+
+// The most recently pushed repositories the token can access, limited to the owner when it is known
+async function completeRepo(value: string, owner?: string): Promise<string[]> {
+  const repos = await githubRequest(buildUrl(apiUrl("/user/repos"), { per_page: 100, sort: "pushed" })) as Named[];
+  return matching(
+    repos
+      .filter(repo => !!repo.name && !!repo.owner?.login && isAllowed(repo.owner.login, repo.name))
+      .filter(repo => !owner || repo.owner?.login?.toLowerCase() === owner.toLowerCase())
+      .map(repo => repo.name!),
+    value
+  );
+}
+
+// Workflow file names, which need the owner and repository
+async function completeWorkflow(value: string, owner?: string, repo?: string): Promise<string[]> {
+  if (!owner || !repo || !isToolEnabled("list_workflows") || !isAllowed(owner, repo)) {
+    return [];
+  }
+  const { workflows } = await listWorkflows(owner, repo, undefined, undefined, { all: true });
+  return matching(workflows.map(workflow => workflow.path.split("/").pop()!), value);
+}
+
+/**
+ * Suggest values for an argument of a resource template or prompt
+ *
+ * @param name The argument name
+ * @param value What the user has typed so far
+ * @param context Values of the other arguments, when the client sends them
+ */
+export async function completeArgument(name: string, value: string, context: Record<string, string> = {}): Promise<string[]> {
+  switch (name) {
+    case "owner":
+      return completeOwner(value);
+    case "repo":
+      return completeRepo(value, context.owner);
+    case "workflow":
+    case "workflowId":
+      return completeWorkflow(value, context.owner, context.repo);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Answer completion/complete for every resource template and prompt of a
+ * server. The SDK's own handler only passes the typed value to completers,
+ * so this one replaces it to also use the other arguments the client sends
+ * in `context.arguments`. Call it after registering resources and prompts.
+ */
+export function handleCompletions(server: McpServer): void {
+  server.server.registerCapabilities({ completions: {} });
+  server.server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const { argument } = request.params;
+    const context = (request.params as { context?: { arguments?: Record<string, string> } }).context?.arguments ?? {};
+    let values: string[] = [];
+    try {
+      values = await completeArgument(argument.name, argument.value, context);
+    } catch (error) {
+      // Suggestions are best effort; the user can still type the value
+      logger.debug("Completion failed", { argument: argument.name, error });
+    }
+    return {
+      completion: {
+        values: values.slice(0, MAX_COMPLETIONS),
+        total: values.length,
+        hasMore: values.length > MAX_COMPLETIONS,
+      },
+    };
+  });
+}
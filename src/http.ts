@@ -0,0 +1,293 @@
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import http, { IncomingMessage, ServerResponse } from "http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { hasCredentials, withGitHubToken } from "./common/auth.js";
+import { logger, withLogServer } from "./common/logger.js";
+import { VERSION } from "./common/version.js";
+
+export type HttpServerOptions = {
+  host: string;
+  port: number;
+  // Accepted as `Authorization: Bearer <token>` or `X-API-Key: <token>`; none means no authentication
+  authTokens: string[];
+  // Serve without auth tokens on an interface other clients can reach
+  allowUnauthenticated?: boolean;
+};
+
+type Session = {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  // GitHub token the client sent when it opened the session
+  githubToken?: string;
+  // Digest of the credential that opened the session; other credentials cannot use it
+  client: string;
+  lastSeen: number;
+};
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Sessions without requests for this long are closed
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+
+const sessions = new Map<string, Session>();
+
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Identify the caller by its bearer token or API key
+ *
+ * @returns The client ID, or undefined when the request is not authorized
+ */
+function authenticate(req: IncomingMessage, authTokens: Buffer[]): string | undefined {
+  if (authTokens.length === 0) {
+    return "anonymous";
+  }
+  const authorization = req.headers.authorization;
+  const presented = authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? req.headers["x-api-key"];
+  if (typeof presented !== "string" || !presented) {
+    return undefined;
+  }
+  const presentedDigest = digest(presented);
+  // Compare digests so the comparison takes the same time for every token
+  return authTokens.some(token => timingSafeEqual(token, presentedDigest))
+    ? presentedDigest.toString("hex").slice(0, 16)
+    : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(body));
+}
+
+function sendRpcError(res: ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}) {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null }, headers);
+}
+
+class InvalidBodyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidBodyError";
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new InvalidBodyError(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch (error) {
+    throw new InvalidBodyError(`Request body is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Clients send their GitHub token as a header; Smithery passes session configuration as query parameters
+function sessionGitHubToken(req: IncomingMessage): string | undefined {
+  const header = req.headers["x-github-token"];
+  const token = typeof header === "string" && header.trim()
+    ? header
+    : new URL(req.url ?? "/", "http://localhost").searchParams.get("githubPersonalAccessToken");
+  return token?.trim() || undefined;
+}
+
+// Requests are handled with the session's GitHub token, and log messages go to its client only
+function inSession<T>(session: Session, fn: () => Promise<T>): Promise<T> {
+  session.lastSeen = Date.now();
+  return withGitHubToken(session.githubToken, () => withLogServer(session.server.server, fn));
+}
+
+// The server takes over the transport's onclose when it connects, so hook into the server's
+function onSessionClosed(session: Session, sessionId: () => string | undefined) {
+  const previous = session.server.server.onclose;
+  session.server.server.onclose = () => {
+    previous?.();
+    const id = sessionId();
+    if (id && sessions.delete(id)) {
+      logger.info("HTTP session closed", { sessionId: id });
+    }
+  };
+}
+
+function findSession(sessionId: string | undefined, client: string): Session | undefined {
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  return session && session.client === client ? session : undefined;
+}
+
+/**
+ * Serve MCP over HTTP
+ *
+ * - `POST/GET/DELETE /mcp`: Streamable HTTP transport
+ * - `GET /sse` and `POST /messages`: legacy HTTP+SSE transport for older clients
+ * - `GET /healthz`: liveness check, without authentication
+ *
+ * Every session gets its own server from `createServer`. A client may send
+ * `X-GitHub-Token` (or the `githubPersonalAccessToken` query parameter) when
+ * it opens a session to use its own GitHub token for the whole session
+ * instead of the server's credentials.
+ */
+export async function startHttpServer(createServer: () => McpServer, options: HttpServerOptions): Promise<http.Server> {
+  const authTokens = options.authTokens.map(digest);
+  if (authTokens.length === 0) {
+    // Every client that can reach the port would act with the server's GitHub credentials
+    if (hasCredentials() && !isLoopback(options.host) && !options.allowUnauthenticated) {
+      throw new Error(
+        `Refusing to serve HTTP on ${options.host} with the server's GitHub credentials but without auth tokens; `
+          + "set GITHUB_ACTIONS_MCP_HTTP_AUTH_TOKENS, listen on 127.0.0.1, or pass --allow-unauthenticated-http"
+      );
+    }
+    logger.warning("HTTP transport has no auth tokens configured; any client that can reach it can use it", { host: options.host });
+  }
+
+  // Open a session; the caller connects the transport and stores the session
+  const openSession = (req: IncomingMessage, res: ServerResponse, client: string) => {
+    const githubToken = sessionGitHubToken(req);
+    if (!githubToken && !hasCredentials()) {
+      sendRpcError(res, 401, -32001, "Send a GitHub token in the X-GitHub-Token header; the server has no credentials of its own");
+      return undefined;
+    }
+    return { server: createServer(), githubToken, client, lastSeen: Date.now() };
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse, client: string) => {
+    const sessionId = req.headers["mcp-session-id"];
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === "string") {
+      const session = findSession(sessionId, client);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      const transport = session.transport;
+      await inSession(session, () => transport.handleRequest(req, res, body));
+      return;
+    }
+
+    const initializing = req.method === "POST"
+      && (Array.isArray(body) ? body.some(message => isInitializeRequest(message)) : isInitializeRequest(body));
+    if (!initializing) {
+      sendRpcError(res, 400, -32000, "No session; send an initialize request first");
+      return;
+    }
+    const opened = openSession(req, res, client);
+    if (!opened) {
+      return;
+    }
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, session);
+        logger.info("HTTP session opened", { sessionId: id, transport: "streamable-http" });
+      },
+    });
+    const session: Session = { ...opened, transport };
+    await session.server.connect(transport);
+    onSessionClosed(session, () => transport.sessionId);
+    await inSession(session, () => transport.handleRequest(req, res, body));
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, client: string) => {
+    const opened = openSession(req, res, client);
+    if (!opened) {
+      return;
+    }
+    const transport = new SSEServerTransport("/messages", res);
+    const session: Session = { ...opened, transport };
+    sessions.set(transport.sessionId, session);
+    logger.info("HTTP session opened", { sessionId: transport.sessionId, transport: "sse" });
+    await session.server.connect(transport);
+    onSessionClosed(session, () => transport.sessionId);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, client: string, url: URL) => {
+    const session = findSession(url.searchParams.get("sessionId") ?? undefined, client);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+    const transport = session.transport;
+    const body = await readJsonBody(req);
+    await inSession(session, () => transport.handlePostMessage(req, res, body));
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      if (url.pathname === "/healthz" && req.method === "GET") {
+        sendJson(res, 200, { status: "ok", version: VERSION, sessions: sessions.size });
+        return;
+      }
+
+      const route = url.pathname === "/mcp" ? "mcp"
+        : url.pathname === "/sse" && req.method === "GET" ? "sse"
+        : url.pathname === "/messages" && req.method === "POST" ? "messages"
+        : undefined;
+      if (!route) {
+        sendJson(res, 404, { error: "not_found" });
+        return;
+      }
+
+      const client = authenticate(req, authTokens);
+      if (!client) {
+        sendRpcError(res, 401, -32001, "Unauthorized", { "WWW-Authenticate": 'Bearer realm="github-actions-mcp"' });
+        return;
+      }
+
+      if (route === "mcp") {
+        await handleStreamable(req, res, client);
+      } else if (route === "sse") {
+        await handleSse(req, res, client);
+      } else {
+        await handleSseMessage(req, res, client, url);
+      }
+    } catch (error) {
+      if (error instanceof InvalidBodyError) {
+        sendRpcError(res, 400, -32700, error.message);
+        return;
+      }
+      logger.error("HTTP request failed", { method: req.method, path: url.pathname, error });
+      if (!res.headersSent) {
+        sendRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  // Close Streamable HTTP sessions whose clients went away without ending them;
+  // legacy SSE sessions end when their stream closes
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [sessionId, session] of sessions) {
+      if (session.transport instanceof StreamableHTTPServerTransport && session.lastSeen < cutoff) {
+        logger.info("Closing idle HTTP session", { sessionId });
+        void session.transport.close();
+        sessions.delete(sessionId);
+      }
+    }
+  }, 60 * 1000);
+  sweep.unref();
+  httpServer.on("close", () => clearInterval(sweep));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  logger.info("Listening for MCP over HTTP", { host: options.host, port: options.port, endpoints: ["/mcp", "/sse", "/messages", "/healthz"] });
+  return httpServer;
+}
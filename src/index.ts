@@ -1,11 +1,11 @@
 import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
+import { createPrivateKey } from 'crypto';
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"; // Use McpServer
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"; // Transport for Windsurf
 import { 
     CallToolRequestSchema, 
-    ListToolsRequestSchema 
+    ListToolsRequestSchema,
+    SetLevelRequestSchema
 } from "@modelcontextprotocol/sdk/types.js"; 
 import { z } from 'zod'; 
 import { zodToJsonSchema } from 'zod-to-json-schema';
@@ -13,150 +13,444 @@ import { zodToJsonSchema } from 'zod-to-json-schema';
 // Restore GitHub specific imports
 import { Octokit } from "@octokit/rest";
 import * as actions from './operations/actions.js';
-import { 
-    GitHubError, 
-    isGitHubError, 
-    GitHubValidationError,
-    GitHubResourceNotFoundError,
-    GitHubAuthenticationError,
-    GitHubPermissionError,
-    GitHubRateLimitError,
-    GitHubConflictError,
-    GitHubTimeoutError,
-    GitHubNetworkError,
+import * as logs from './operations/logs.js';
+import * as artifacts from './operations/artifacts.js';
+import * as testReports from './operations/test-reports.js';
+import * as dispatch from './operations/dispatch.js';
+import * as schedule from './operations/schedule.js';
+import * as lint from './operations/lint.js';
+import * as timeline from './operations/timeline.js';
+import * as flakiness from './operations/flakiness.js';
+import * as metrics from './operations/metrics.js';
+import * as rateLimit from './operations/rate-limit.js';
+import * as cache from './operations/cache.js';
+import * as previews from './operations/previews.js';
+import * as audit from './operations/audit.js';
+import {
+    PolicyViolationError,
 } from './common/errors.js';
 import { VERSION } from "./common/version.js";
+import { getApiBaseUrl, setApiBaseUrl, useCaBundle, validateOwnerName, validateRepositoryName } from "./common/utils.js";
+import { configureAuth, resolveAuthorization } from "./common/auth.js";
+import * as policy from "./common/policy.js";
+import { issueConfirmationToken, redeemConfirmationToken } from "./common/confirmation.js";
+import { auditToolCall, configureAudit } from "./common/audit.js";
+import { describeToolError } from "./common/tool-errors.js";
+import { startHttpServer } from "./http.js";
+import { registerResources } from "./resources.js";
+import { handleCompletions } from "./completions.js";
+import { registerPrompts } from "./prompts.js";
+import {
+    logger,
+    captureConsole,
+    configureLogging,
+    attachLogServer,
+    setClientLogLevel,
+    detachLogServer,
+    parseLogLevel,
+    parseLogFormat,
+    parseLogDestinations,
+} from "./common/logger.js";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-const logFilePath = path.join(__dirname, '..', 'dist', 'mcp-startup.log'); // Ensure log path points to dist
-
-// Simple file logger
-function logToFile(message: string) {
-  const timestamp = new Date().toISOString();
-  try {
-    // Ensure dist directory exists before logging
-    const logDir = path.dirname(logFilePath);
-    if (!fs.existsSync(logDir)){
-        fs.mkdirSync(logDir, { recursive: true });
-    }
-    fs.appendFileSync(logFilePath, `[${timestamp}] ${message}\n`, 'utf8');
-  } catch (err: any) { // Use any for broader catch
-    const errorMsg = `[File Log Error] Failed to write to ${logFilePath}: ${err?.message || String(err)}`;
-    console.error(errorMsg);
-    if (err instanceof Error && err.stack) { // Check if error has stack
-      console.error(err.stack);
-    }
-    console.error(`[Original Message] ${message}`);
-  }
-}
-
-// Clear log file on startup
-// Ensure dist directory exists before logging
-const logDir = path.dirname(logFilePath);
-try {
-    if (!fs.existsSync(logDir)){
-        fs.mkdirSync(logDir, { recursive: true });
-    }
-    fs.writeFileSync(logFilePath, '', 'utf8'); 
-    logToFile('[MCP Server Log] Log file cleared/initialized.');
-} catch (err: any) { 
-    // Log critical startup error to stderr *only* if file logging setup failed
-    // This is a last resort and might still interfere, but necessary if logging isn't possible.
-    const errorMsg = `[MCP Startup Error] Failed to initialize log file at ${logFilePath}: ${err?.message || String(err)}`;
-    console.error(errorMsg); 
-    if (err instanceof Error && err.stack) {
-        console.error(err.stack);
-    }
-    process.exit(1); // Exit if we can't even log
-}
+// stdout carries the MCP protocol; anything printed to the console goes to the logger instead
+captureConsole();
 
 // Add a global handler for uncaught exceptions
 process.on('uncaughtException', (err, origin) => {
-  let message = `[MCP Server Log] Uncaught Exception. Origin: ${origin}. Error: ${err?.message || String(err)}`;
-  logToFile(message);
-  if (err && err.stack) {
-    logToFile(err.stack);
-  }
-  // Optionally add more context
-  logToFile('[MCP Server Log] Exiting due to uncaught exception.');
+  logger.critical('Uncaught exception; exiting', { origin, error: err });
   process.exit(1); // Exit cleanly
 });
 
-logToFile('[MCP Server Log] Initializing GitHub Actions MCP Server...');
-
 // Restore auth logic
 // Allow token via CLI argument `--token=<token>` or fallback to env var
 let cliToken: string | undefined;
+let cliApiUrl: string | undefined;
+let cliCaBundle: string | undefined;
+let cliAppId: string | undefined;
+let cliPrivateKeyPath: string | undefined;
+let cliInstallationId: string | undefined;
+let cliPolicy: string | undefined;
+let cliConfirmMutations = false;
+let cliAuditLog: string | undefined;
+let cliLogLevel: string | undefined;
+let cliLogFormat: string | undefined;
+let cliLogDestination: string | undefined;
+let cliLogFile: string | undefined;
+let cliTransport: string | undefined;
+let cliHost: string | undefined;
+let cliPort: string | undefined;
+let cliHttpAuthTokens: string | undefined;
+let cliAllowUnauthenticatedHttp = false;
 for (const arg of process.argv) {
   if (arg.startsWith('--token=')) {
     cliToken = arg.substring('--token='.length);
-    break;
+  } else if (arg.startsWith('--api-url=')) {
+    cliApiUrl = arg.substring('--api-url='.length);
+  } else if (arg.startsWith('--ca-bundle=')) {
+    cliCaBundle = arg.substring('--ca-bundle='.length);
+  } else if (arg.startsWith('--app-id=')) {
+    cliAppId = arg.substring('--app-id='.length);
+  } else if (arg.startsWith('--private-key-path=')) {
+    cliPrivateKeyPath = arg.substring('--private-key-path='.length);
+  } else if (arg.startsWith('--installation-id=')) {
+    cliInstallationId = arg.substring('--installation-id='.length);
+  } else if (arg.startsWith('--policy=')) {
+    cliPolicy = arg.substring('--policy='.length);
+  } else if (arg === '--confirm-mutations') {
+    cliConfirmMutations = true;
+  } else if (arg.startsWith('--audit-log=')) {
+    cliAuditLog = arg.substring('--audit-log='.length);
+  } else if (arg.startsWith('--log-level=')) {
+    cliLogLevel = arg.substring('--log-level='.length);
+  } else if (arg.startsWith('--log-format=')) {
+    cliLogFormat = arg.substring('--log-format='.length);
+  } else if (arg.startsWith('--log-destination=')) {
+    cliLogDestination = arg.substring('--log-destination='.length);
+  } else if (arg.startsWith('--log-file=')) {
+    cliLogFile = arg.substring('--log-file='.length);
+  } else if (arg.startsWith('--transport=')) {
+    cliTransport = arg.substring('--transport='.length);
+  } else if (arg.startsWith('--host=')) {
+    cliHost = arg.substring('--host='.length);
+  } else if (arg.startsWith('--port=')) {
+    cliPort = arg.substring('--port='.length);
+  } else if (arg.startsWith('--http-auth-tokens=')) {
+    cliHttpAuthTokens = arg.substring('--http-auth-tokens='.length);
+  } else if (arg === '--allow-unauthenticated-http') {
+    cliAllowUnauthenticatedHttp = true;
+  }
+}
+
+// Logging: level, json or pretty lines, and any of stderr, a file, and the MCP client
+try {
+  const logLevel = cliLogLevel || process.env.GITHUB_ACTIONS_MCP_LOG_LEVEL;
+  const logFormat = cliLogFormat || process.env.GITHUB_ACTIONS_MCP_LOG_FORMAT;
+  const logDestination = cliLogDestination || process.env.GITHUB_ACTIONS_MCP_LOG_DESTINATION;
+  const logFile = cliLogFile || process.env.GITHUB_ACTIONS_MCP_LOG_FILE;
+  configureLogging({
+    ...(logLevel ? { level: parseLogLevel(logLevel) } : {}),
+    ...(logFormat ? { format: parseLogFormat(logFormat) } : {}),
+    // Naming a log file without destinations means logging to that file
+    ...(logDestination ? { destinations: parseLogDestinations(logDestination) } : logFile ? { destinations: ['file'] } : {}),
+    ...(logFile ? { file: logFile } : {}),
+  });
+} catch (err: any) {
+  logger.critical(`Invalid logging configuration: ${err?.message || String(err)}`);
+  process.exit(1);
+}
+
+logger.info('Initializing GitHub Actions MCP Server', { version: VERSION });
+
+// stdio for a single client, or http for a shared service with Streamable HTTP and legacy SSE endpoints
+const transportMode = (cliTransport || process.env.GITHUB_ACTIONS_MCP_TRANSPORT || 'stdio').toLowerCase();
+if (transportMode !== 'stdio' && transportMode !== 'http') {
+  logger.critical(`Unknown transport "${transportMode}"; expected stdio or http`);
+  process.exit(1);
+}
+
+// GitHub Enterprise Server: API base URL and an optional CA bundle for internal certificates
+try {
+  const apiUrl = cliApiUrl || process.env.GITHUB_API_URL;
+  if (apiUrl) {
+    setApiBaseUrl(apiUrl);
+  }
+  const caBundle = cliCaBundle || process.env.GITHUB_CA_BUNDLE;
+  if (caBundle) {
+    useCaBundle(caBundle);
+    logger.info('Using CA bundle', { caBundle });
   }
+} catch (err: any) {
+  logger.critical(`Invalid GitHub API configuration: ${err?.message || String(err)}`);
+  process.exit(1);
 }
+logger.info('Using GitHub API', { apiUrl: getApiBaseUrl() });
 
+// A personal access token takes precedence over GitHub App credentials
 const GITHUB_TOKEN = cliToken || process.env.GITHUB_PERSONAL_ACCESS_TOKEN; // Restore env check
-if (!GITHUB_TOKEN) {
-  logToFile('FATAL: GITHUB_PERSONAL_ACCESS_TOKEN environment variable is not set.');
+const GITHUB_APP_ID = cliAppId || process.env.GITHUB_APP_ID;
+if (GITHUB_TOKEN) {
+  configureAuth({ type: "token", token: GITHUB_TOKEN });
+  logger.info('Using personal access token authentication');
+} else if (GITHUB_APP_ID) {
+  try {
+    const privateKeyPath = cliPrivateKeyPath || process.env.GITHUB_APP_PRIVATE_KEY_PATH;
+    // Keys passed through the environment often have their newlines escaped
+    const privateKey = privateKeyPath
+      ? fs.readFileSync(privateKeyPath, 'utf8')
+      : process.env.GITHUB_APP_PRIVATE_KEY?.replace(/\\n/g, '\n');
+    if (!privateKey) {
+      throw new Error('GITHUB_APP_PRIVATE_KEY or GITHUB_APP_PRIVATE_KEY_PATH must be set for GitHub App authentication.');
+    }
+    createPrivateKey(privateKey);
+    const installationId = cliInstallationId || process.env.GITHUB_APP_INSTALLATION_ID;
+    configureAuth({
+      type: "app",
+      appId: GITHUB_APP_ID,
+      privateKey,
+      installationId: installationId ? Number(installationId) : undefined,
+    });
+    logger.info('Using GitHub App authentication', { appId: GITHUB_APP_ID });
+  } catch (err: any) {
+    logger.critical(`Invalid GitHub App configuration: ${err?.message || String(err)}`);
+    process.exit(1);
+  }
+} else if (transportMode === 'http') {
+  // A shared service may leave credentials to the sessions
+  logger.warning('No GitHub credentials configured; HTTP sessions must send their own token in the X-GitHub-Token header');
+} else {
+  logger.critical('Set GITHUB_PERSONAL_ACCESS_TOKEN, or GITHUB_APP_ID with a private key.');
   process.exit(1);
 }
-logToFile('[MCP Server Log] GitHub token found.'); // Restore original log message
-const octokit = new Octokit({ auth: GITHUB_TOKEN });
-logToFile('[MCP Server Log] Octokit initialized.');
 
-const server = new McpServer(
-  {
-    name: "github-actions-mcp-server",
-    version: VERSION, 
-    context: {
-      octokit: octokit
+// Optional policy restricting which tools, repositories and dispatches are allowed
+const policyFile = cliPolicy || process.env.GITHUB_ACTIONS_MCP_POLICY;
+if (policyFile) {
+  try {
+    const loaded = policy.loadPolicy(policyFile);
+    logger.info('Loaded policy', { file: policyFile, readOnly: loaded.readOnly ?? false });
+  } catch (err: any) {
+    logger.critical(err?.message || String(err));
+    process.exit(1);
+  }
+}
+
+if (cliConfirmMutations && !policy.getPolicy().confirmation) {
+  policy.setPolicy({ ...policy.getPolicy(), confirmation: {} });
+}
+
+// Audit log of tool calls: path, or "off" to disable; rotated by size
+const auditLog = cliAuditLog || process.env.GITHUB_ACTIONS_MCP_AUDIT_LOG;
+const auditDisabled = !!auditLog && ['off', 'false'].includes(auditLog.toLowerCase());
+configureAudit({
+  enabled: !auditDisabled,
+  ...(auditLog && !auditDisabled ? { path: auditLog } : {}),
+  ...(process.env.GITHUB_ACTIONS_MCP_AUDIT_MAX_BYTES ? { maxBytes: Number(process.env.GITHUB_ACTIONS_MCP_AUDIT_MAX_BYTES) } : {}),
+  ...(process.env.GITHUB_ACTIONS_MCP_AUDIT_MAX_FILES ? { maxFiles: Number(process.env.GITHUB_ACTIONS_MCP_AUDIT_MAX_FILES) } : {}),
+});
+
+const octokit = new Octokit({ baseUrl: getApiBaseUrl() });
+// Octokit resolves credentials per request, the same way githubRequest does
+octokit.hook.before("request", async (options) => {
+  const authorization = await resolveAuthorization(octokit.request.endpoint(options).url);
+  if (authorization) {
+    options.headers.authorization = authorization;
+  }
+});
+logger.debug('Octokit initialized');
+
+type ToolHandler = (request: any, extra: any) => Promise<any>;
+
+// Tools enabled by the policy; each server, one per session, gets all of them
+const tools: Array<{ name: string, shape: z.ZodRawShape, handler: ToolHandler }> = [];
+
+/**
+ * Register a tool unless the policy disables it
+ */
+function registerTool(name: string, shape: z.ZodRawShape, handler: ToolHandler) {
+  if (!policy.isToolEnabled(name)) {
+    logger.info('Tool disabled by policy', { tool: name });
+    return;
+  }
+  tools.push({ name, shape, handler });
+}
+
+/**
+ * Add a registered tool to a server. Calls are checked against the
+ * repository and dispatch rules before the handler runs, and mutating tools
+ * go through the confirmation handshake when the policy requires it.
+ * Anything the call throws is returned as an error result described by
+ * describeToolError, so every tool fails the same way.
+ */
+function addTool(server: McpServer, name: string, shape: z.ZodRawShape, handler: ToolHandler) {
+  const mutating = policy.MUTATING_TOOLS.has(name);
+  const toolShape = mutating ? { ...shape, ...previews.ConfirmationOptionsSchema.shape } : shape;
+
+  server.tool(name, toolShape, async (request: any, extra) => auditToolCall(name, request, async (setOutcome) => {
+    try {
+      if (request.owner && request.repo) {
+        // Check the policy against the names the request will actually go to
+        request = { ...request, owner: validateOwnerName(request.owner), repo: validateRepositoryName(request.repo) };
+        policy.checkRepositoryAccess(name, request.owner, request.repo);
+        if (request.workflowId !== undefined && request.ref) {
+          policy.checkDispatch(name, request.owner, request.repo, request.workflowId, request.ref);
+        }
+      }
+      if (mutating) {
+        const { dryRun, confirmationToken, ...args } = request;
+        const confirmation = await confirmMutation(server, name, args, { dryRun, confirmationToken }, extra);
+        if (confirmation) {
+          setOutcome(confirmation.outcome);
+          return confirmation.result;
+        }
+        return await handler(args, extra);
+      }
+      return await handler(request, extra);
+    } catch (error) {
+      // Every failure becomes an error result with the same JSON shape
+      const cancelled = extra.signal.aborted;
+      setOutcome(error instanceof PolicyViolationError ? "denied" : cancelled ? "cancelled" : "error", error);
+      logger.debug('Tool call failed', { tool: name, error });
+      return {
+        isError: true,
+        content: [{ type: "text", text: JSON.stringify(describeToolError(error, name, cancelled)) }]
+      };
     }
+  }, extra.sessionId));
+}
+
+/**
+ * Create a server with every registered tool, the gha:// resources and the prompts. The stdio transport uses one;
+ * the HTTP transport creates one per session.
+ */
+function createServer(): McpServer {
+  const server = new McpServer(
+    {
+      name: "github-actions-mcp-server",
+      version: VERSION, 
+      context: {
+        octokit: octokit
+      }
+    },
+    {
+      capabilities: { logging: {} }
+    }
+  );
+
+  // Log messages reach the client as notifications/message, at the level it sets
+  attachLogServer(server.server);
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    setClientLogLevel(server.server, request.params.level);
+    logger.debug('Client set log level', { level: request.params.level });
+    return {};
+  });
+
+  for (const tool of tools) {
+    addTool(server, tool.name, tool.shape, tool.handler);
   }
-);
+  const stopSubscriptions = registerResources(server);
+  registerPrompts(server);
+  handleCompletions(server);
+
+  server.server.onclose = () => {
+    detachLogServer(server.server);
+    stopSubscriptions();
+  };
+  return server;
+}
+
+// Elicitation request and result; SDK 1.12 has no types for them yet, and
+// Server.request accepts any request beyond the ones it knows
+type ElicitRequest = {
+  method: "elicitation/create";
+  params: {
+    message: string;
+    requestedSchema: {
+      type: "object";
+      properties: Record<string, { type: "boolean" | "string" | "number" | "integer", title?: string, description?: string }>;
+      required?: string[];
+    };
+  };
+};
+
+const ElicitResultSchema = z.object({
+  action: z.enum(["accept", "decline", "cancel"]),
+  content: z.record(z.string(), z.unknown()).optional(),
+}).passthrough();
 
-// Restore error formatting function
-function formatGitHubError(error: GitHubError): string {
-  let message = `GitHub API Error: ${error.message}`;
-  
-  if (error instanceof GitHubValidationError) {
-    message = `Validation Error: ${error.message}`;
-    if (error.response) {
-      message += `\nDetails: ${JSON.stringify(error.response)}`;
-    }
-  } else if (error instanceof GitHubResourceNotFoundError) {
-    message = `Not Found: ${error.message}`;
-  } else if (error instanceof GitHubAuthenticationError) {
-    message = `Authentication Failed: ${error.message}`;
-  } else if (error instanceof GitHubPermissionError) {
-    message = `Permission Denied: ${error.message}`;
-  } else if (error instanceof GitHubRateLimitError) {
-    message = `Rate Limit Exceeded: ${error.message}\nResets at: ${error.resetAt.toISOString()}`;
-  } else if (error instanceof GitHubConflictError) {
-    message = `Conflict: ${error.message}`;
-  } else if (error instanceof GitHubTimeoutError) {
-    message = `Timeout: ${error.message}\nTimeout setting: ${error.timeoutMs}ms`;
-  } else if (error instanceof GitHubNetworkError) {
-    message = `Network Error: ${error.message}\nError code: ${error.errorCode}`;
+/**
+ * Run the confirmation handshake for a mutating tool
+ *
+ * A dry run returns a preview and a confirmation token. When confirmation is
+ * required, a client that supports elicitation asks its user to approve the
+ * preview; other clients get the preview and token, and the action only runs
+ * when the tool is called again with the token and the same arguments.
+ *
+ * @returns A tool result and audit outcome to return instead of running the action, or undefined to run it
+ */
+async function confirmMutation(
+  server: McpServer,
+  name: string,
+  args: Record<string, any>,
+  { dryRun, confirmationToken }: { dryRun?: boolean, confirmationToken?: string },
+  extra: any
+) {
+  if (confirmationToken && !dryRun) {
+    redeemConfirmationToken(name, args, confirmationToken, extra.sessionId);
+    return undefined;
+  }
+  if (!dryRun && !policy.requiresConfirmation(name)) {
+    return undefined;
+  }
+
+  const preview = await previews.previewMutation(name, args);
+  const ttlSeconds = policy.getPolicy().confirmation?.ttlSeconds;
+
+  if (!dryRun && (server.server.getClientCapabilities() as Record<string, unknown> | undefined)?.elicitation) {
+    try {
+      const request: ElicitRequest = {
+        method: "elicitation/create",
+        params: {
+          message: `Approve ${name}: ${preview?.summary ?? JSON.stringify(args)}`,
+          requestedSchema: {
+            type: "object",
+            properties: {
+              approve: { type: "boolean", title: "Approve", description: "Run this action now" }
+            },
+            required: ["approve"]
+          }
+        }
+      };
+      // Sent in the context of the tool call so HTTP transports deliver it on the call's stream
+      const result = await server.server.request(request, ElicitResultSchema, {
+        relatedRequestId: extra.requestId,
+        signal: extra.signal,
+      });
+      if (result.action === "accept" && result.content?.approve === true) {
+        return undefined;
+      }
+      return {
+        outcome: "cancelled" as const,
+        result: { content: [{ type: "text", text: JSON.stringify({ cancelled: true, action: result.action, preview }) }] }
+      };
+    } catch (error: any) {
+      // Fall back to the token handshake if the client fails the request
+      logger.warning('Elicitation failed', { tool: name, error });
+    }
   }
 
-  return message;
+  const { token, expiresAt } = issueConfirmationToken(name, args, ttlSeconds, extra.sessionId);
+  return {
+    outcome: dryRun ? "success" as const : "confirmation_required" as const,
+    result: {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          ...(dryRun ? { dryRun: true } : { confirmationRequired: true }),
+          preview,
+          confirmationToken: token,
+          expiresAt,
+          next: `Call ${name} again with the same arguments and confirmationToken to perform the action.`
+        })
+      }]
+    }
+  };
 }
 
 // Restore ListTools using server.tool()
-server.tool(
+registerTool(
     "list_workflows",
     actions.ListWorkflowsSchema.shape,
     async (request: any) => {
-      logToFile('[MCP Server Log] Received list_workflows request (via server.tool)');
+      logger.debug('Received list_workflows request');
       // Args are already parsed by the McpServer using the provided schema
-      const result = await actions.listWorkflows(request.owner, request.repo, request.page, request.perPage);
+      const { owner, repo, page, perPage, all, maxItems } = request;
+      const result = await actions.listWorkflows(owner, repo, page, perPage, { all, maxItems });
       return { content: [{ type: "text", text: JSON.stringify(result) }] };
     }
 );
 
-// Register other tools using server.tool()
-server.tool(
+// Register other tools using registerTool()
+registerTool(
     "get_workflow",
     actions.GetWorkflowSchema.shape,
     async (request: any) => {
@@ -165,7 +459,7 @@ server.tool(
     }
 );
 
-server.tool(
+registerTool(
     "get_workflow_usage",
     actions.GetWorkflowUsageSchema.shape,
     async (request: any) => {
@@ -174,7 +468,7 @@ server.tool(
     }
 );
 
-server.tool(
+registerTool(
     "list_workflow_runs",
     actions.ListWorkflowRunsSchema.shape,
     async (request: any) => {
@@ -184,7 +478,7 @@ server.tool(
     }
 );
 
-server.tool(
+registerTool(
     "get_workflow_run",
     actions.GetWorkflowRunSchema.shape,
     async (request: any) => {
@@ -193,27 +487,48 @@ server.tool(
     }
 );
 
-server.tool(
+registerTool(
     "get_workflow_run_jobs",
     actions.GetWorkflowRunJobsSchema.shape,
     async (request: any) => {
-        const { owner, repo, runId, filter, page, perPage } = request;
-        const result = await actions.getWorkflowRunJobs(owner, repo, runId, filter, page, perPage);
+        const { owner, repo, runId, filter, page, perPage, all, maxItems } = request;
+        const result = await actions.getWorkflowRunJobs(owner, repo, runId, filter, page, perPage, { all, maxItems });
         return { content: [{ type: "text", text: JSON.stringify(result) }] };
     }
 );
 
-server.tool(
+registerTool(
     "trigger_workflow",
     actions.TriggerWorkflowSchema.shape,
     async (request: any) => {
-        const { owner, repo, workflowId, ref, inputs } = request;
-        const result = await actions.triggerWorkflow(owner, repo, workflowId, ref, inputs);
+        const { owner, repo, workflowId, ref, inputs, validateInputs } = request;
+        const result = await actions.triggerWorkflow(owner, repo, workflowId, ref, inputs, { validateInputs });
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "trigger_workflow_and_wait",
+    dispatch.TriggerWorkflowAndWaitSchema.shape,
+    async (request: any, extra) => {
+        const { owner, repo, workflowId, ref, inputs, ...options } = request;
+        const progressToken = extra._meta?.progressToken;
+        const result = await dispatch.triggerWorkflowAndWait(owner, repo, workflowId, ref, inputs, {
+            ...options,
+            signal: extra.signal,
+            // Only send progress notifications when the client asked for them
+            onProgress: progressToken === undefined ? undefined : async ({ progress, total, message }) => {
+                await extra.sendNotification({
+                    method: "notifications/progress",
+                    params: { progressToken, progress, total, message }
+                });
+            }
+        });
         return { content: [{ type: "text", text: JSON.stringify(result) }] };
     }
 );
 
-server.tool(
+registerTool(
     "cancel_workflow_run",
     actions.CancelWorkflowRunSchema.shape,
     async (request: any) => {
@@ -222,16 +537,20 @@ server.tool(
     }
 );
 
-server.tool(
+registerTool(
     "rerun_workflow",
     actions.RerunWorkflowSchema.shape,
     async (request: any) => {
-        const result = await actions.rerunWorkflowRun(request.owner, request.repo, request.runId);
+        const result = await actions.rerunWorkflowRun(request.owner, request.repo, request.runId, {
+            mode: request.mode,
+            jobId: request.jobId,
+            enableDebugLogging: request.enableDebugLogging,
+        });
         return { content: [{ type: "text", text: JSON.stringify(result) }] };
     }
 );
 
-server.tool(
+registerTool(
     "get_workflow_yaml",
     actions.GetWorkflowYamlSchema.shape,
     async (request: any) => {
@@ -240,7 +559,7 @@ server.tool(
     }
 );
 
-server.tool(
+registerTool(
     "get_workflow_dispatch_inputs",
     actions.GetWorkflowDispatchInputsSchema.shape,
     async (request: any) => {
@@ -249,44 +568,203 @@ server.tool(
     }
 );
 
+registerTool(
+    "get_workflow_triggers",
+    actions.GetWorkflowTriggersSchema.shape,
+    async (request: any) => {
+        const result = await actions.getWorkflowTriggers(request.owner, request.repo, request.workflowId);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "get_job_logs",
+    logs.GetJobLogsSchema.shape,
+    async (request: any) => {
+        const { owner, repo, jobId, ...options } = request;
+        const result = await logs.getJobLogs(owner, repo, jobId, options);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "get_workflow_run_logs",
+    logs.GetWorkflowRunLogsSchema.shape,
+    async (request: any) => {
+        const { owner, repo, runId, ...options } = request;
+        const result = await logs.getWorkflowRunLogs(owner, repo, runId, options);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "list_run_artifacts",
+    artifacts.ListRunArtifactsSchema.shape,
+    async (request: any) => {
+        const { owner, repo, runId, ...options } = request;
+        const result = await artifacts.listRunArtifacts(owner, repo, runId, options);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "list_repo_artifacts",
+    artifacts.ListRepoArtifactsSchema.shape,
+    async (request: any) => {
+        const { owner, repo, ...options } = request;
+        const result = await artifacts.listRepoArtifacts(owner, repo, options);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "download_artifact",
+    artifacts.DownloadArtifactSchema.shape,
+    async (request: any) => {
+        const { owner, repo, artifactId, ...options } = request;
+        const result = await artifacts.downloadArtifact(owner, repo, artifactId, options);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "delete_artifact",
+    artifacts.DeleteArtifactSchema.shape,
+    async (request: any) => {
+        const result = await artifacts.deleteArtifact(request.owner, request.repo, request.artifactId);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "get_run_test_results",
+    testReports.GetRunTestResultsSchema.shape,
+    async (request: any) => {
+        const { owner, repo, runId, ...options } = request;
+        const result = await testReports.getRunTestResults(owner, repo, runId, options);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "get_workflow_schedule",
+    schedule.GetWorkflowScheduleSchema.shape,
+    async (request: any) => {
+        const { owner, repo, workflowId, ...options } = request;
+        const result = await schedule.getWorkflowSchedule(owner, repo, workflowId, options);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "lint_workflow",
+    lint.LintWorkflowSchema.shape,
+    async (request: any) => {
+        const result = await lint.lintWorkflow(request);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "get_run_timeline",
+    timeline.GetRunTimelineSchema.shape,
+    async (request: any) => {
+        const result = await timeline.getRunTimeline(request.owner, request.repo, request.runId, request.format);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "analyze_flakiness",
+    flakiness.AnalyzeFlakinessSchema.shape,
+    async (request: any) => {
+        const { owner, repo, workflowId, ...options } = request;
+        const result = await flakiness.analyzeFlakiness(owner, repo, workflowId, options);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "get_workflow_metrics",
+    metrics.GetWorkflowMetricsSchema.shape,
+    async (request: any) => {
+        const { owner, repo, workflowId, ...options } = request;
+        const result = await metrics.getWorkflowMetrics(owner, repo, workflowId, options);
+        return {
+            content: [
+                { type: "text", text: JSON.stringify(result) },
+                { type: "text", text: metrics.renderMetricsMarkdown(result) }
+            ]
+        };
+    }
+);
+
+registerTool(
+    "get_rate_limit_status",
+    rateLimit.GetRateLimitStatusSchema.shape,
+    async (request: any) => {
+        const result = await rateLimit.getRateLimitStatus(request.refresh);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "get_cache_stats",
+    cache.GetCacheStatsSchema.shape,
+    async (request: any) => {
+        const result = await cache.getCacheStats(request.clear);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
+registerTool(
+    "get_audit_log",
+    audit.GetAuditLogSchema.shape,
+    async (request: any, extra) => {
+        const result = await audit.getAuditLog(request, extra.sessionId);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+);
+
 // Wrap server logic in a try/catch for initialization errors
 try {
-    logToFile('[MCP Server Log] Server initialization complete. Ready for connection.');
-    // Attach stdio transport so Windsurf can communicate
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    logToFile('[MCP Server Log] Connected via stdio transport.');
-} catch (error: any) {
-    // Ensure fatal errors during server setup are logged to the file.
-    logToFile(`[MCP Server Log] FATAL Error during server setup: ${error?.message || String(error)}`);
-    if (error instanceof Error && error.stack) {
-        logToFile(error.stack);
+    logger.debug('Server initialization complete');
+    if (transportMode === 'http') {
+        await startHttpServer(createServer, {
+            host: cliHost || process.env.GITHUB_ACTIONS_MCP_HOST || '127.0.0.1',
+            port: Number(cliPort || process.env.PORT || 3000),
+            authTokens: (cliHttpAuthTokens || process.env.GITHUB_ACTIONS_MCP_HTTP_AUTH_TOKENS || '')
+                .split(',').map(token => token.trim()).filter(Boolean),
+            allowUnauthenticated: cliAllowUnauthenticatedHttp || process.env.GITHUB_ACTIONS_MCP_ALLOW_UNAUTHENTICATED_HTTP === 'true',
+        });
+    } else {
+        // Attach stdio transport so Windsurf can communicate
+        const transport = new StdioServerTransport();
+        await createServer().connect(transport);
+        logger.info('Connected via stdio transport');
     }
-    // Do NOT use console.error here as it will interfere with MCP stdio
+} catch (error: any) {
+    logger.critical('Server setup failed', { error });
     process.exit(1);
 }
 
 // Add other process event handlers
 
-// Catch unhandled promise rejections, log them to file, and exit gracefully.
-process.on('unhandledRejection', (reason, promise) => {
-  // Log unhandled promise rejections to the file.
-  let reasonStr = reason instanceof Error ? reason.message : String(reason);
-  // Including stack trace if available
-  let stack = reason instanceof Error ? `\nStack: ${reason.stack}` : '';
-  logToFile(`[MCP Server Log] Unhandled Rejection at: ${promise}, reason: ${reasonStr}${stack}`);
+// Catch unhandled promise rejections and log them
+process.on('unhandledRejection', (reason) => {
+  logger.error('Unhandled promise rejection', reason instanceof Error ? { error: reason } : { reason: String(reason) });
   // Consider exiting depending on the severity or application logic
   // process.exit(1); // Optionally exit
 });
 
 process.on('SIGINT', () => {
-  logToFile('[MCP Server Log] Received SIGINT. Exiting gracefully.');
+  logger.info('Received SIGINT; exiting');
   // Add any cleanup logic here
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
-  logToFile('[MCP Server Log] Received SIGTERM. Exiting gracefully.');
+  logger.info('Received SIGTERM; exiting');
   // Add any cleanup logic here
   process.exit(0);
 });
\ No newline at end of file
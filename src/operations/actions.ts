@@ -1,14 +1,26 @@
 import { z } from "zod";
-import { githubRequest, buildUrl, validateOwnerName, validateRepositoryName } from "../common/utils.js";
+import {
+  githubRequest,
+  githubPaginate,
+  buildUrl,
+  apiUrl,
+  validateOwnerName,
+  validateRepositoryName,
+  validateWorkflowId,
+  PaginationOptions
+} from "../common/utils.js";
 import {
   WorkflowRunsSchema,
   WorkflowRunSchema,
+  JobSchema,
   JobsSchema,
   WorkflowsSchema,
   WorkflowSchema,
-  WorkflowUsageSchema
+  WorkflowUsageSchema,
+  WorkflowRun
 } from "../common/types.js";
-import yaml from 'js-yaml';
+import { GitHubError, GitHubResourceNotFoundError, InvalidArgumentError, WorkflowDefinitionError, WorkflowInputError, WorkflowInputValidationError } from "../common/errors.js";
+import { WorkflowDefinition, WorkflowInput, findTrigger, parseWorkflowYaml } from "../common/workflow-definition.js";
 
 /**
  * Schema definitions
@@ -20,6 +32,8 @@ export const ListWorkflowsSchema = z.object({
   repo: z.string().describe("Repository name"),
   page: z.number().optional().describe("Page number for pagination"),
   perPage: z.number().optional().describe("Results per page (max 100)"),
+  all: z.boolean().optional().describe("Follow pagination and return all results, up to maxItems (default cap: 1000)"),
+  maxItems: z.number().optional().describe("Maximum number of results to collect across pages"),
 });
 
 // Get workflow schema
@@ -46,6 +60,8 @@ export const ListWorkflowRunsSchema = z.object({
   checkSuiteId: z.number().optional().describe("Returns workflow runs with the check_suite_id"),
   page: z.number().optional().describe("Page number for pagination"),
   perPage: z.number().optional().describe("Results per page (max 100)"),
+  all: z.boolean().optional().describe("Follow pagination and return all results, up to maxItems (default cap: 1000)"),
+  maxItems: z.number().optional().describe("Maximum number of results to collect across pages"),
 });
 
 // Get workflow run schema
@@ -63,6 +79,8 @@ export const GetWorkflowRunJobsSchema = z.object({
   filter: z.enum(['latest', 'all']).optional().describe("Filter jobs by their completed_at date"),
   page: z.number().optional().describe("Page number for pagination"),
   perPage: z.number().optional().describe("Results per page (max 100)"),
+  all: z.boolean().optional().describe("Follow pagination and return all results, up to maxItems (default cap: 1000)"),
+  maxItems: z.number().optional().describe("Maximum number of results to collect across pages"),
 });
 
 // Trigger workflow schema
@@ -71,9 +89,12 @@ export const TriggerWorkflowSchema = z.object({
   repo: z.string().describe("Repository name"),
   workflowId: z.string().describe("The ID of the workflow or filename (string or number)"),
   ref: z.string().describe("The reference of the workflow run (branch, tag, or SHA)"),
-  inputs: z.record(z.string(), z.string()).optional().describe("Input parameters for the workflow"),
+  inputs: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional().describe("Input parameters for the workflow"),
+  validateInputs: z.boolean().optional().describe("Check inputs against the workflow_dispatch definitions and fill in defaults before triggering"),
 });
 
+export type WorkflowInputValue = string | number | boolean;
+
 // Cancel workflow run schema
 export const CancelWorkflowRunSchema = z.object({
   owner: z.string().describe("Repository owner (username or organization)"),
@@ -82,7 +103,13 @@ export const CancelWorkflowRunSchema = z.object({
 });
 
 // Rerun workflow schema
-export const RerunWorkflowSchema = CancelWorkflowRunSchema;
+export const RerunWorkflowSchema = CancelWorkflowRunSchema.extend({
+  mode: z.enum(["all", "failed", "job"]).optional().describe("Re-run all jobs, only the failed jobs and their dependents, or the single job given by jobId (default: job when jobId is set, otherwise all)"),
+  jobId: z.number().optional().describe("The ID of the job to re-run with mode job; jobs that depend on it are re-run too"),
+  enableDebugLogging: z.boolean().optional().describe("Enable runner and step debug logging for the new attempt"),
+});
+
+export type RerunMode = "all" | "failed" | "job";
 
 // Get workflow YAML
 export const GetWorkflowYamlSchema = z.object({
@@ -97,6 +124,12 @@ export const GetWorkflowDispatchInputsSchema = z.object({
   workflowId: z.string().describe("The workflow file name, e.g. runner.yaml"),
 });
 
+export const GetWorkflowTriggersSchema = GetWorkflowDispatchInputsSchema;
+
+// How long a re-run waits for GitHub to report the new attempt
+const RERUN_ATTEMPT_TIMEOUT_MS = 10000;
+const RERUN_POLL_INTERVAL_MS = 1000;
+
 /**
  * Function implementations
  */
@@ -106,18 +139,19 @@ export async function listWorkflows(
   owner: string, 
   repo: string, 
   page?: number, 
-  perPage?: number
+  perPage?: number,
+  pagination: PaginationOptions = {}
 ) {
   owner = validateOwnerName(owner);
   repo = validateRepositoryName(repo);
 
-  const url = buildUrl(`https://api.github.com/repos/${owner}/${repo}/actions/workflows`, {
+  const url = buildUrl(apiUrl(`/repos/${owner}/${repo}/actions/workflows`), {
     page: page,
     per_page: perPage
   });
 
-  const response = await githubRequest(url);
-  return WorkflowsSchema.parse(response);
+  const { items, ...pageInfo } = await githubPaginate(url, "workflows", pagination);
+  return { ...WorkflowsSchema.parse({ ...pageInfo, workflows: items }), ...pageInfo };
 }
 
 // Get a workflow
@@ -128,8 +162,9 @@ export async function getWorkflow(
 ) {
   owner = validateOwnerName(owner);
   repo = validateRepositoryName(repo);
+  workflowId = validateWorkflowId(workflowId);
 
-  const url = `https://api.github.com/repos/${owner}/${repo}/actions/workflows/${workflowId}`;
+  const url = apiUrl(`/repos/${owner}/${repo}/actions/workflows/${workflowId}`);
   const response = await githubRequest(url);
   return WorkflowSchema.parse(response);
 }
@@ -142,8 +177,9 @@ export async function getWorkflowUsage(
 ) {
   owner = validateOwnerName(owner);
   repo = validateRepositoryName(repo);
+  workflowId = validateWorkflowId(workflowId);
 
-  const url = `https://api.github.com/repos/${owner}/${repo}/actions/workflows/${workflowId}/timing`;
+  const url = apiUrl(`/repos/${owner}/${repo}/actions/workflows/${workflowId}/timing`);
   const response = await githubRequest(url);
   return WorkflowUsageSchema.parse(response);
 }
@@ -163,16 +199,16 @@ export async function listWorkflowRuns(
     checkSuiteId?: number,
     page?: number,
     perPage?: number
-  } = {}
+  } & PaginationOptions = {}
 ) {
   owner = validateOwnerName(owner);
   repo = validateRepositoryName(repo);
 
   let url;
   if (options.workflowId) {
-    url = `https://api.github.com/repos/${owner}/${repo}/actions/workflows/${options.workflowId}/runs`;
+    url = apiUrl(`/repos/${owner}/${repo}/actions/workflows/${validateWorkflowId(options.workflowId)}/runs`);
   } else {
-    url = `https://api.github.com/repos/${owner}/${repo}/actions/runs`;
+    url = apiUrl(`/repos/${owner}/${repo}/actions/runs`);
   }
 
   url = buildUrl(url, {
@@ -187,8 +223,8 @@ export async function listWorkflowRuns(
     per_page: options.perPage
   });
 
-  const response = await githubRequest(url);
-  return WorkflowRunsSchema.parse(response);
+  const { items, ...pageInfo } = await githubPaginate(url, "workflow_runs", options);
+  return { ...WorkflowRunsSchema.parse({ ...pageInfo, workflow_runs: items }), ...pageInfo };
 }
 
 // Get a workflow run
@@ -200,7 +236,7 @@ export async function getWorkflowRun(
   owner = validateOwnerName(owner);
   repo = validateRepositoryName(repo);
 
-  const url = `https://api.github.com/repos/${owner}/${repo}/actions/runs/${runId}`;
+  const url = apiUrl(`/repos/${owner}/${repo}/actions/runs/${runId}`);
   const response = await githubRequest(url);
   return WorkflowRunSchema.parse(response);
 }
@@ -212,19 +248,34 @@ export async function getWorkflowRunJobs(
   runId: number, 
   filter?: 'latest' | 'all', 
   page?: number, 
-  perPage?: number
+  perPage?: number,
+  pagination: PaginationOptions = {}
 ) {
   owner = validateOwnerName(owner);
   repo = validateRepositoryName(repo);
 
-  const url = buildUrl(`https://api.github.com/repos/${owner}/${repo}/actions/runs/${runId}/jobs`, {
+  const url = buildUrl(apiUrl(`/repos/${owner}/${repo}/actions/runs/${runId}/jobs`), {
     filter: filter,
     page: page,
     per_page: perPage
   });
 
+  const { items, ...pageInfo } = await githubPaginate(url, "jobs", pagination);
+  return { ...JobsSchema.parse({ ...pageInfo, jobs: items }), ...pageInfo };
+}
+
+// Get a single workflow job
+export async function getWorkflowJob(
+  owner: string,
+  repo: string,
+  jobId: number
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const url = apiUrl(`/repos/${owner}/${repo}/actions/jobs/${jobId}`);
   const response = await githubRequest(url);
-  return JobsSchema.parse(response);
+  return JobSchema.parse(response);
 }
 
 // Trigger a workflow run
@@ -233,20 +284,29 @@ export async function triggerWorkflow(
   repo: string, 
   workflowId: string | number, 
   ref: string, 
-  inputs?: Record<string, string>
+  inputs?: Record<string, WorkflowInputValue>,
+  options: { validateInputs?: boolean } = {}
 ) {
   owner = validateOwnerName(owner);
   repo = validateRepositoryName(repo);
+  workflowId = validateWorkflowId(workflowId);
+
+  let resolvedInputs: Record<string, string> | undefined = inputs
+    ? Object.fromEntries(Object.entries(inputs).map(([name, value]) => [name, String(value)]))
+    : undefined;
+  if (options.validateInputs) {
+    resolvedInputs = await validateWorkflowInputs(owner, repo, workflowId, inputs ?? {});
+  }
 
-  const url = `https://api.github.com/repos/${owner}/${repo}/actions/workflows/${workflowId}/dispatches`;
+  const url = apiUrl(`/repos/${owner}/${repo}/actions/workflows/${workflowId}/dispatches`);
   
   const body: {
     ref: string;
     inputs?: Record<string, string>;
   } = { ref };
   
-  if (inputs && Object.keys(inputs).length > 0) {
-    body.inputs = inputs;
+  if (resolvedInputs && Object.keys(resolvedInputs).length > 0) {
+    body.inputs = resolvedInputs;
   }
 
   await githubRequest(url, {
@@ -255,7 +315,11 @@ export async function triggerWorkflow(
   });
 
   // This endpoint doesn't return any data on success
-  return { success: true, message: `Workflow ${workflowId} triggered on ${ref}` };
+  return {
+    success: true,
+    message: `Workflow ${workflowId} triggered on ${ref}`,
+    ...(options.validateInputs ? { inputs: resolvedInputs } : {})
+  };
 }
 
 // Cancel a workflow run
@@ -267,40 +331,109 @@ export async function cancelWorkflowRun(
   owner = validateOwnerName(owner);
   repo = validateRepositoryName(repo);
 
-  const url = `https://api.github.com/repos/${owner}/${repo}/actions/runs/${runId}/cancel`;
+  const url = apiUrl(`/repos/${owner}/${repo}/actions/runs/${runId}/cancel`);
   await githubRequest(url, { method: 'POST' });
 
   // This endpoint doesn't return any data on success
   return { success: true, message: `Workflow run ${runId} cancelled` };
 }
 
-// Rerun a workflow run
+/**
+ * Work out which jobs a re-run covers
+ *
+ * @returns The mode, defaulting to job when a job ID is given and all otherwise
+ */
+export function resolveRerunMode(mode?: RerunMode, jobId?: number): RerunMode {
+  const resolved = mode ?? (jobId !== undefined ? "job" : "all");
+  if (resolved === "job" && jobId === undefined) {
+    throw new InvalidArgumentError("jobId is required when mode is job", "jobId");
+  }
+  if (resolved !== "job" && jobId !== undefined) {
+    throw new InvalidArgumentError(`jobId only applies to mode job, not ${resolved}`, "jobId");
+  }
+  return resolved;
+}
+
+// Rerun a workflow run, its failed jobs or a single job
 export async function rerunWorkflowRun(
   owner: string, 
   repo: string, 
-  runId: number
+  runId: number,
+  options: { mode?: RerunMode, jobId?: number, enableDebugLogging?: boolean } = {}
 ) {
   owner = validateOwnerName(owner);
   repo = validateRepositoryName(repo);
+  const mode = resolveRerunMode(options.mode, options.jobId);
+  const previous = await getWorkflowRun(owner, repo, runId);
+
+  let url: string;
+  if (mode === "job") {
+    // The job endpoint does not take the run ID, so make sure the job is part of this run
+    const job = await getWorkflowJob(owner, repo, options.jobId!);
+    if (job.run_id !== runId) {
+      throw new GitHubResourceNotFoundError(`Job ${options.jobId} in run ${runId}`);
+    }
+    url = apiUrl(`/repos/${owner}/${repo}/actions/jobs/${job.id}/rerun`);
+  } else {
+    url = apiUrl(`/repos/${owner}/${repo}/actions/runs/${runId}/${mode === "failed" ? "rerun-failed-jobs" : "rerun"}`);
+  }
+  await githubRequest(url, {
+    method: 'POST',
+    body: { enable_debug_logging: options.enableDebugLogging ?? false }
+  });
 
-  const url = `https://api.github.com/repos/${owner}/${repo}/actions/runs/${runId}/rerun`;
-  await githubRequest(url, { method: 'POST' });
+  // The endpoints don't return any data, and the run may report the new attempt
+  // only after a moment; until then its attempt URL answers 404
+  const runAttempt = previous.run_attempt + 1;
+  const attemptUrl = apiUrl(`/repos/${owner}/${repo}/actions/runs/${runId}/attempts/${runAttempt}`);
+  const deadline = Date.now() + RERUN_ATTEMPT_TIMEOUT_MS;
+  let attempt: WorkflowRun | undefined;
+  while (!attempt && Date.now() < deadline) {
+    try {
+      attempt = WorkflowRunSchema.parse(await githubRequest(attemptUrl));
+    } catch (error) {
+      if (!(error instanceof GitHubResourceNotFoundError)) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, RERUN_POLL_INTERVAL_MS));
+    }
+  }
 
-  // This endpoint doesn't return any data on success
-  return { success: true, message: `Workflow run ${runId} restarted` };
+  const target = mode === "all" ? `Workflow run ${runId}`
+    : mode === "failed" ? `Failed jobs of workflow run ${runId}`
+    : `Job ${options.jobId} of workflow run ${runId}`;
+  return {
+    success: true,
+    message: attempt
+      ? `${target} restarted as attempt ${runAttempt}`
+      : `${target} restart requested; GitHub has not reported attempt ${runAttempt} yet`,
+    mode,
+    ...(mode === "job" ? { jobId: options.jobId } : {}),
+    enableDebugLogging: options.enableDebugLogging ?? false,
+    runAttempt,
+    // False when the attempt number is the expected one rather than one GitHub reported
+    runAttemptConfirmed: !!attempt,
+    ...(attempt ? { status: attempt.status } : {}),
+    htmlUrl: attempt?.html_url ?? previous.html_url,
+  };
 }
 
 // Get workflow YAML
 export async function getWorkflowYaml(
   owner: string,
   repo: string,
-  workflowId: string
+  workflowId: string,
+  ref?: string
 ) {
   owner = validateOwnerName(owner);
   repo = validateRepositoryName(repo);
+  workflowId = validateWorkflowId(workflowId);
   // Assume workflowId is the file name, e.g. runner.yaml
   const path = `.github/workflows/${workflowId}`;
-  const url = `https://api.github.com/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}`;
+  // Without a ref the file is read from the default branch
+  const url = buildUrl(apiUrl(`/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}`), {
+    ref: ref
+  });
   const response = await githubRequest(url, {
     headers: { Accept: 'application/vnd.github.v3.raw' }
   });
@@ -315,31 +448,170 @@ export async function getWorkflowDispatchInputs(
 ) {
   // Fetch the raw YAML
   const { yaml: yamlContent } = await getWorkflowYaml(owner, repo, workflowId);
-  // Parse YAML
-  let doc: any;
+  let definition: WorkflowDefinition;
   try {
-    doc = yaml.load(yamlContent);
+    definition = parseWorkflowYaml(yamlContent);
   } catch (e) {
-    return { error: 'Failed to parse workflow YAML', details: String(e) };
+    throw new WorkflowDefinitionError(workflowId, `Failed to parse workflow YAML of ${workflowId}: ${e instanceof Error ? e.message : String(e)}`);
   }
-  // Find workflow_dispatch inputs
-  let inputs = undefined;
-  if (doc && doc.on && doc.on.workflow_dispatch && doc.on.workflow_dispatch.inputs) {
-    inputs = doc.on.workflow_dispatch.inputs;
-  } else if (doc && doc.on && doc.on['workflow_dispatch'] && doc.on['workflow_dispatch'].inputs) {
-    // Handles both YAML key styles
-    inputs = doc.on['workflow_dispatch'].inputs;
-  }
-  if (!inputs) {
-    return { error: 'No workflow_dispatch inputs found in workflow YAML.' };
+  const trigger = findTrigger(definition, 'workflow_dispatch');
+  if (!trigger) {
+    throw new WorkflowDefinitionError(workflowId, `Workflow ${workflowId} does not have a workflow_dispatch trigger`);
   }
   // Return as array of { name, ...metadata }
-  const result = Object.entries(inputs).map(([name, meta]) => {
-    if (meta && typeof meta === 'object' && !Array.isArray(meta)) {
-      return { name, ...meta };
-    } else {
-      return { name };
+  return { inputs: trigger.inputs ?? [] };
+}
+
+// Get every trigger of a workflow in normalized form
+export async function getWorkflowTriggers(
+  owner: string,
+  repo: string,
+  workflowId: string
+) {
+  const { yaml: yamlContent } = await getWorkflowYaml(owner, repo, workflowId);
+  const definition = parseWorkflowYaml(yamlContent);
+  return {
+    name: definition.name,
+    path: `.github/workflows/${workflowId}`,
+    triggers: definition.triggers,
+  };
+}
+
+async function environmentExists(owner: string, repo: string, environment: string): Promise<boolean> {
+  const url = apiUrl(`/repos/${owner}/${repo}/environments/${encodeURIComponent(environment)}`);
+  try {
+    await githubRequest(url);
+    return true;
+  } catch (error) {
+    if (error instanceof GitHubError && error.status === 404) {
+      return false;
     }
-  });
-  return { inputs: result };
-}
\ No newline at end of file
+    // Without access to environments we cannot tell, leave it to GitHub
+    return true;
+  }
+}
+
+/**
+ * Check inputs against workflow_dispatch input definitions
+ *
+ * Unknown keys, missing required inputs, values outside of the choice options
+ * and values that cannot be coerced to the declared boolean or number type are
+ * reported per input. Declared defaults are filled in for missing inputs.
+ */
+export function checkWorkflowInputs(
+  definitions: WorkflowInput[],
+  inputs: Record<string, WorkflowInputValue>
+): { inputs: Record<string, string>, errors: WorkflowInputError[] } {
+  const errors: WorkflowInputError[] = [];
+  const resolved: Record<string, string> = {};
+  const declared = new Map(definitions.map(definition => [definition.name, definition]));
+
+  for (const name of Object.keys(inputs)) {
+    if (!declared.has(name)) {
+      errors.push({
+        input: name,
+        error: declared.size > 0
+          ? `Unknown input. Declared inputs: ${[...declared.keys()].join(", ")}`
+          : "Unknown input. The workflow does not declare any workflow_dispatch inputs"
+      });
+    }
+  }
+
+  for (const definition of definitions) {
+    const { name } = definition;
+    let value: WorkflowInputValue | undefined = inputs[name];
+    if (value === undefined || value === "") {
+      if (definition.default !== undefined && definition.default !== null) {
+        value = definition.default as WorkflowInputValue;
+      } else if (definition.required) {
+        errors.push({ input: name, error: "Required input is missing" });
+        continue;
+      } else {
+        continue;
+      }
+    }
+
+    switch (definition.type) {
+      case "boolean": {
+        const normalized = String(value).toLowerCase();
+        if (normalized !== "true" && normalized !== "false") {
+          errors.push({ input: name, error: `Expected a boolean (true or false), got "${value}"` });
+          continue;
+        }
+        resolved[name] = normalized;
+        break;
+      }
+      case "number": {
+        const number = typeof value === "number" ? value : Number(String(value).trim());
+        if (typeof value === "boolean" || String(value).trim() === "" || !Number.isFinite(number)) {
+          errors.push({ input: name, error: `Expected a number, got "${value}"` });
+          continue;
+        }
+        resolved[name] = String(number);
+        break;
+      }
+      case "choice": {
+        const options = (definition.options ?? []).map(option => String(option));
+        if (!options.includes(String(value))) {
+          errors.push({ input: name, error: `"${value}" is not one of the allowed options: ${options.join(", ")}` });
+          continue;
+        }
+        resolved[name] = String(value);
+        break;
+      }
+      case "environment": {
+        if (typeof value !== "string") {
+          errors.push({ input: name, error: `Expected an environment name, got ${typeof value}` });
+          continue;
+        }
+        resolved[name] = value;
+        break;
+      }
+      default:
+        resolved[name] = String(value);
+    }
+  }
+
+  return { inputs: resolved, errors };
+}
+
+// Validate inputs against the workflow file and return them with defaults filled in
+export async function validateWorkflowInputs(
+  owner: string,
+  repo: string,
+  workflowId: string | number,
+  inputs: Record<string, WorkflowInputValue>
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  // The workflow file is needed to read the input definitions
+  let fileName = String(workflowId);
+  if (/^\d+$/.test(fileName)) {
+    const workflow = await getWorkflow(owner, repo, workflowId);
+    fileName = workflow.path.split('/').pop()!;
+  }
+
+  const { yaml: yamlContent } = await getWorkflowYaml(owner, repo, fileName);
+  const trigger = findTrigger(parseWorkflowYaml(yamlContent), 'workflow_dispatch');
+  if (!trigger) {
+    throw new WorkflowInputValidationError(workflowId, [
+      { input: 'workflow_dispatch', error: `Workflow ${fileName} does not have a workflow_dispatch trigger` }
+    ]);
+  }
+  const definitions = trigger.inputs ?? [];
+
+  const { inputs: resolved, errors } = checkWorkflowInputs(definitions, inputs);
+  for (const definition of definitions) {
+    const environment = resolved[definition.name];
+    if (definition.type === "environment" && environment &&
+        !(await environmentExists(owner, repo, environment))) {
+      errors.push({ input: definition.name, error: `Environment "${environment}" does not exist in ${owner}/${repo}` });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new WorkflowInputValidationError(workflowId, errors);
+  }
+  return resolved;
+}
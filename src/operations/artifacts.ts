@@ -0,0 +1,231 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { z } from "zod";
+import {
+  githubRequest,
+  githubPaginate,
+  buildUrl,
+  apiUrl,
+  validateOwnerName,
+  validateRepositoryName,
+  PaginationOptions
+} from "../common/utils.js";
+import { unzip, ZipEntry } from "../common/zip.js";
+import { InvalidArgumentError } from "../common/errors.js";
+import { Artifact, ArtifactSchema, ArtifactsSchema } from "../common/types.js";
+
+/**
+ * Schema definitions
+ */
+
+// List run artifacts schema
+export const ListRunArtifactsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  runId: z.number().describe("The ID of the workflow run"),
+  name: z.string().optional().describe("Only return artifacts with this exact name"),
+  page: z.number().optional().describe("Page number for pagination"),
+  perPage: z.number().optional().describe("Results per page (max 100)"),
+  all: z.boolean().optional().describe("Follow pagination and return all results, up to maxItems (default cap: 1000)"),
+  maxItems: z.number().optional().describe("Maximum number of results to collect across pages"),
+});
+
+// List repository artifacts schema
+export const ListRepoArtifactsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  name: z.string().optional().describe("Only return artifacts with this exact name"),
+  page: z.number().optional().describe("Page number for pagination"),
+  perPage: z.number().optional().describe("Results per page (max 100)"),
+  all: z.boolean().optional().describe("Follow pagination and return all results, up to maxItems (default cap: 1000)"),
+  maxItems: z.number().optional().describe("Maximum number of results to collect across pages"),
+});
+
+// Download artifact schema
+export const DownloadArtifactSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  artifactId: z.number().describe("The ID of the artifact"),
+  inline: z.boolean().optional().describe("Return the content of small text files (e.g. JUnit XML, coverage summaries) inline"),
+  inlineMaxBytes: z.number().optional().describe("Maximum size of a file returned inline (default: 65536)"),
+});
+
+// Delete artifact schema
+export const DeleteArtifactSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  artifactId: z.number().describe("The ID of the artifact"),
+});
+
+/**
+ * Artifact helpers
+ */
+
+const DEFAULT_INLINE_MAX_BYTES = 64 * 1024;
+// Archives are unpacked in memory, so larger artifacts are not downloaded
+const MAX_ARTIFACT_BYTES = 200 * 1024 * 1024;
+const MAX_UNPACKED_ARTIFACT_BYTES = 500 * 1024 * 1024;
+
+// Artifacts are only ever extracted below this directory
+function getArtifactRoot(): string {
+  return path.resolve(
+    process.env.GITHUB_ACTIONS_MCP_ARTIFACT_DIR || path.join(os.tmpdir(), "github-actions-mcp", "artifacts")
+  );
+}
+
+// Resolve an archive entry below the target directory, rejecting paths that escape it
+function resolveEntryPath(targetDir: string, entryName: string): string {
+  const resolved = path.resolve(targetDir, entryName);
+  if (resolved !== targetDir && !resolved.startsWith(targetDir + path.sep)) {
+    throw new InvalidArgumentError(`Artifact entry ${entryName} resolves outside of the artifact directory`, "artifactId");
+  }
+  return resolved;
+}
+
+function isTextContent(data: Buffer): boolean {
+  return !data.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Function implementations
+ */
+
+// List artifacts for a workflow run
+export async function listRunArtifacts(
+  owner: string,
+  repo: string,
+  runId: number,
+  options: { name?: string, page?: number, perPage?: number } & PaginationOptions = {}
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const url = buildUrl(apiUrl(`/repos/${owner}/${repo}/actions/runs/${runId}/artifacts`), {
+    name: options.name,
+    page: options.page,
+    per_page: options.perPage
+  });
+
+  const { items, ...pageInfo } = await githubPaginate(url, "artifacts", options);
+  return { ...ArtifactsSchema.parse({ ...pageInfo, artifacts: items }), ...pageInfo };
+}
+
+// List artifacts for a repository
+export async function listRepoArtifacts(
+  owner: string,
+  repo: string,
+  options: { name?: string, page?: number, perPage?: number } & PaginationOptions = {}
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const url = buildUrl(apiUrl(`/repos/${owner}/${repo}/actions/artifacts`), {
+    name: options.name,
+    page: options.page,
+    per_page: options.perPage
+  });
+
+  const { items, ...pageInfo } = await githubPaginate(url, "artifacts", options);
+  return { ...ArtifactsSchema.parse({ ...pageInfo, artifacts: items }), ...pageInfo };
+}
+
+// Get an artifact
+export async function getArtifact(
+  owner: string,
+  repo: string,
+  artifactId: number
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const url = apiUrl(`/repos/${owner}/${repo}/actions/artifacts/${artifactId}`);
+  const response = await githubRequest(url);
+  return ArtifactSchema.parse(response);
+}
+
+// Download an artifact and unpack it in memory
+export async function downloadArtifactArchive(
+  owner: string,
+  repo: string,
+  artifact: Artifact
+): Promise<ZipEntry[]> {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  if (artifact.expired) {
+    throw new InvalidArgumentError(
+      `Artifact ${artifact.id} (${artifact.name}) has expired and can no longer be downloaded`,
+      "artifactId"
+    );
+  }
+  if (artifact.size_in_bytes > MAX_ARTIFACT_BYTES) {
+    throw new InvalidArgumentError(
+      `Artifact ${artifact.id} (${artifact.name}) is ${artifact.size_in_bytes} bytes, more than the ${MAX_ARTIFACT_BYTES} bytes that can be downloaded`,
+      "artifactId"
+    );
+  }
+
+  // Redirects to a short-lived download URL for the zip archive
+  const url = apiUrl(`/repos/${owner}/${repo}/actions/artifacts/${artifact.id}/zip`);
+  const archive = await githubRequest(url, { responseType: "buffer" }) as Buffer;
+  return unzip(archive, MAX_UNPACKED_ARTIFACT_BYTES);
+}
+
+// Download an artifact into the local artifact directory
+export async function downloadArtifact(
+  owner: string,
+  repo: string,
+  artifactId: number,
+  options: { inline?: boolean, inlineMaxBytes?: number } = {}
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const artifact = await getArtifact(owner, repo, artifactId);
+  const entries = await downloadArtifactArchive(owner, repo, artifact);
+  const targetDir = path.join(getArtifactRoot(), owner, repo, String(artifactId));
+
+  // Reject the whole archive before anything is written
+  const paths = entries.map(entry => resolveEntryPath(targetDir, entry.name));
+  fs.rmSync(targetDir, { recursive: true, force: true });
+  fs.mkdirSync(targetDir, { recursive: true });
+
+  const inlineMaxBytes = options.inlineMaxBytes ?? DEFAULT_INLINE_MAX_BYTES;
+  const files = entries.map((entry, index) => {
+    const filePath = paths[index];
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, entry.data);
+
+    const inline = options.inline && entry.size <= inlineMaxBytes && isTextContent(entry.data);
+    return {
+      path: entry.name,
+      size: entry.size,
+      ...(inline ? { content: entry.data.toString("utf8") } : {}),
+    };
+  });
+
+  return {
+    artifactId: artifact.id,
+    name: artifact.name,
+    directory: targetDir,
+    totalSize: files.reduce((sum, file) => sum + file.size, 0),
+    files,
+  };
+}
+
+// Delete an artifact
+export async function deleteArtifact(
+  owner: string,
+  repo: string,
+  artifactId: number
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const url = apiUrl(`/repos/${owner}/${repo}/actions/artifacts/${artifactId}`);
+  await githubRequest(url, { method: 'DELETE' });
+
+  // This endpoint doesn't return any data on success
+  return { success: true, message: `Artifact ${artifactId} deleted` };
+}
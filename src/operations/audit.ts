@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { getAuditConfig, queryAuditLog } from "../common/audit.js";
+
+/**
+ * Schema definitions
+ */
+
+// Get audit log schema
+export const GetAuditLogSchema = z.object({
+  tool: z.string().optional().describe("Only entries for this tool"),
+  repository: z.string().optional().describe("Only entries for this repository (owner/repo)"),
+  outcome: z.enum(["success", "error", "denied", "confirmation_required", "cancelled"]).optional().describe("Only entries with this outcome"),
+  since: z.string().optional().describe("Only entries at or after this time (ISO 8601)"),
+  limit: z.number().optional().describe("Maximum number of entries to return, newest first (default: 50)"),
+});
+
+/**
+ * Function implementations
+ */
+
+// Query recent tool calls from the audit log
+export async function getAuditLog(query: z.infer<typeof GetAuditLogSchema>, sessionId?: string) {
+  const { enabled, path } = getAuditConfig();
+  // Sessions of a shared HTTP service only see their own calls
+  const entries = await queryAuditLog({ ...query, sessionId });
+  return { enabled, path, ...(sessionId ? { sessionId } : {}), count: entries.length, entries };
+}
@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { clearCache, getCacheStats as getResponseCacheStats } from "../common/cache.js";
+
+/**
+ * Schema definitions
+ */
+
+// Get cache stats schema
+export const GetCacheStatsSchema = z.object({
+  clear: z.boolean().optional().describe("Clear the response cache, including the disk store, after reading the statistics"),
+});
+
+/**
+ * Function implementations
+ */
+
+// Get hit/miss statistics of the GitHub API response cache
+export async function getCacheStats(clear = false) {
+  const stats = getResponseCacheStats();
+  if (clear) {
+    await clearCache();
+  }
+  return { ...stats, ...(clear ? { cleared: true } : {}) };
+}
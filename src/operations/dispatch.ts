@@ -0,0 +1,194 @@
+import { z } from "zod";
+import { githubRequest, apiUrl, validateOwnerName, validateRepositoryName } from "../common/utils.js";
+import { WorkflowRun } from "../common/types.js";
+import { GitHubPermissionError, GitHubResourceNotFoundError } from "../common/errors.js";
+import {
+  TriggerWorkflowSchema,
+  getWorkflowRun,
+  getWorkflowRunJobs,
+  listWorkflowRuns,
+  triggerWorkflow,
+  WorkflowInputValue
+} from "./actions.js";
+
+/**
+ * Schema definitions
+ */
+
+// Trigger workflow and wait schema
+export const TriggerWorkflowAndWaitSchema = TriggerWorkflowSchema.extend({
+  waitForCompletion: z.boolean().optional().describe("Keep polling until the run completes (default: true). When false, return as soon as the run is found"),
+  timeoutSeconds: z.number().optional().describe("Maximum time to wait for the run to complete (default: 600)"),
+  pollIntervalSeconds: z.number().optional().describe("Initial interval between status polls, backing off up to 30 seconds (default: 5)"),
+});
+
+export type ProgressUpdate = {
+  progress: number;
+  total?: number;
+  message: string;
+};
+
+export type ProgressCallback = (update: ProgressUpdate) => Promise<void>;
+
+/**
+ * Polling helpers
+ */
+
+// How long to look for the run created by the dispatch before giving up
+const MATCH_TIMEOUT_MS = 60000;
+const MAX_POLL_INTERVAL_MS = 30000;
+// Tolerated clock difference between this machine and GitHub when matching creation times
+const CLOCK_SKEW_MS = 10000;
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Wait for workflow run was cancelled"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Wait for workflow run was cancelled"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function refToBranch(ref: string): string {
+  return ref.replace(/^refs\/(heads|tags)\//, "");
+}
+
+function secondsBetween(start: string | null | undefined, end: string | null | undefined): number | null {
+  if (!start || !end) {
+    return null;
+  }
+  return Math.round((Date.parse(end) - Date.parse(start)) / 1000);
+}
+
+// The login of the token owner, used to narrow down the runs we started
+async function getAuthenticatedLogin(): Promise<string | undefined> {
+  try {
+    const user = await githubRequest(apiUrl("/user")) as { login?: string };
+    return user.login;
+  } catch (error) {
+    // Installation tokens have no user, fall back to matching on workflow, ref and time only.
+    // Any other failure must not silently widen the match to runs started by others.
+    if (error instanceof GitHubPermissionError || error instanceof GitHubResourceNotFoundError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Function implementations
+ */
+
+// Trigger a workflow run and wait for the resulting run
+export async function triggerWorkflowAndWait(
+  owner: string,
+  repo: string,
+  workflowId: string | number,
+  ref: string,
+  inputs?: Record<string, WorkflowInputValue>,
+  options: {
+    validateInputs?: boolean,
+    waitForCompletion?: boolean,
+    timeoutSeconds?: number,
+    pollIntervalSeconds?: number,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  } = {}
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const waitForCompletion = options.waitForCompletion ?? true;
+  const timeoutMs = (options.timeoutSeconds ?? 600) * 1000;
+  const initialIntervalMs = (options.pollIntervalSeconds ?? 5) * 1000;
+  const startedAt = Date.now();
+  let progress = 0;
+  const report = async (message: string) => {
+    await options.onProgress?.({ progress: ++progress, message });
+  };
+
+  const branch = refToBranch(ref);
+  const actor = await getAuthenticatedLogin();
+  const runFilter = { workflowId, branch, actor, event: "workflow_dispatch", perPage: 20 };
+
+  // Runs that already exist can never be the one we are about to start
+  const { workflow_runs: existingRuns } = await listWorkflowRuns(owner, repo, runFilter);
+  const existingIds = new Set(existingRuns.map(run => run.id));
+
+  const dispatchedAt = Date.now();
+  await triggerWorkflow(owner, repo, workflowId, ref, inputs, { validateInputs: options.validateInputs });
+  await report(`Dispatched workflow ${workflowId} on ${ref}, looking for the new run`);
+
+  let run: WorkflowRun | undefined;
+  let intervalMs = 2000;
+  while (!run) {
+    if (Date.now() - dispatchedAt > MATCH_TIMEOUT_MS) {
+      throw new Error(
+        `Workflow ${workflowId} was dispatched on ${ref}, but no matching run appeared within ${MATCH_TIMEOUT_MS / 1000} seconds`
+      );
+    }
+    await sleep(intervalMs, options.signal);
+    intervalMs = Math.min(intervalMs * 1.5, MAX_POLL_INTERVAL_MS);
+
+    const { workflow_runs } = await listWorkflowRuns(owner, repo, runFilter);
+    // Runs are listed newest first, so the last match is the earliest new run
+    run = workflow_runs
+      .filter(candidate => !existingIds.has(candidate.id))
+      .filter(candidate => !candidate.created_at || Date.parse(candidate.created_at) >= dispatchedAt - CLOCK_SKEW_MS)
+      .pop();
+  }
+  await report(`Found run #${run.run_number} (${run.id}): ${run.status}`);
+
+  let timedOut = false;
+  if (waitForCompletion) {
+    intervalMs = initialIntervalMs;
+    while (run.status !== "completed") {
+      if (Date.now() - startedAt > timeoutMs) {
+        timedOut = true;
+        break;
+      }
+      await sleep(intervalMs, options.signal);
+      intervalMs = Math.min(intervalMs * 1.5, MAX_POLL_INTERVAL_MS);
+
+      const previousStatus = run.status;
+      run = await getWorkflowRun(owner, repo, run.id);
+      const elapsed = Math.round((Date.now() - startedAt) / 1000);
+      await report(
+        run.status === previousStatus
+          ? `Run #${run.run_number} is ${run.status} (${elapsed}s elapsed)`
+          : `Run #${run.run_number} changed from ${previousStatus} to ${run.status} (${elapsed}s elapsed)`
+      );
+    }
+  }
+
+  const { jobs } = await getWorkflowRunJobs(owner, repo, run.id, "latest", undefined, undefined, { all: true });
+
+  return {
+    runId: run.id,
+    runNumber: run.run_number,
+    htmlUrl: run.html_url,
+    status: run.status,
+    conclusion: run.conclusion,
+    timedOut,
+    durationSeconds: run.status === "completed" ? secondsBetween(run.run_started_at, run.updated_at) : null,
+    jobs: jobs.map(job => ({
+      id: job.id,
+      name: job.name,
+      status: job.status,
+      conclusion: job.conclusion,
+      durationSeconds: secondsBetween(job.started_at, job.completed_at),
+      failedSteps: job.steps
+        .filter(step => step.conclusion === "failure")
+        .map(step => step.name),
+    })),
+  };
+}
@@ -0,0 +1,174 @@
+import { z } from "zod";
+import { validateOwnerName, validateRepositoryName } from "../common/utils.js";
+import { Job, WorkflowRun } from "../common/types.js";
+import { InvalidArgumentError } from "../common/errors.js";
+import { getWorkflowRunJobs, listWorkflowRuns } from "./actions.js";
+
+/**
+ * Schema definitions
+ */
+
+// Analyze flakiness schema
+export const AnalyzeFlakinessSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  workflowId: z.string().describe("The ID of the workflow or filename (string or number)"),
+  days: z.number().optional().describe("Number of days of run history to analyze (default: 14)"),
+  branch: z.string().optional().describe("Only analyze runs on this branch"),
+  maxRuns: z.number().optional().describe("Maximum number of runs to analyze (default: 200)"),
+  maxEvidence: z.number().optional().describe("Maximum number of evidence links returned per job (default: 5)"),
+});
+
+type JobAttempt = {
+  run: WorkflowRun;
+  job: Job;
+};
+
+type FlakeEvidence = {
+  headSha: string;
+  failed: { runId: number, attempt: number, jobUrl: string, runUrl: string };
+  passed: { runId: number, attempt: number, jobUrl: string, runUrl: string };
+};
+
+type FlakyJob = {
+  flakyCommits: number;
+  timeLostSeconds: number;
+  steps: Map<string, number>;
+  evidence: FlakeEvidence[];
+};
+
+/**
+ * Flakiness helpers
+ */
+
+const FAILED_CONCLUSIONS = new Set(["failure", "timed_out"]);
+
+function durationSeconds(job: Job): number {
+  if (!job.started_at || !job.completed_at) {
+    return 0;
+  }
+  return Math.max(0, Math.round((Date.parse(job.completed_at) - Date.parse(job.started_at)) / 1000));
+}
+
+function attemptUrl(run: WorkflowRun, attempt: number): string {
+  return `${run.html_url}/attempts/${attempt}`;
+}
+
+function describeAttempt({ run, job }: JobAttempt) {
+  return { runId: run.id, attempt: job.run_attempt, jobUrl: job.html_url, runUrl: attemptUrl(run, job.run_attempt) };
+}
+
+function positiveInteger(value: number | undefined, fallback: number, argument: "days" | "maxRuns" | "maxEvidence"): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!Number.isInteger(value) || value < 1) {
+    throw new InvalidArgumentError(`${argument} must be a positive whole number, got ${value}`, argument);
+  }
+  return value;
+}
+
+function sinceDate(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Function implementations
+ */
+
+// Find jobs and steps that failed and then passed on the same commit
+export async function analyzeFlakiness(
+  owner: string,
+  repo: string,
+  workflowId: string,
+  options: { days?: number, branch?: string, maxRuns?: number, maxEvidence?: number } = {}
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const days = positiveInteger(options.days, 14, "days");
+  const maxRuns = positiveInteger(options.maxRuns, 200, "maxRuns");
+  const maxEvidence = positiveInteger(options.maxEvidence, 5, "maxEvidence");
+  const since = sinceDate(days);
+
+  const { workflow_runs: runs } = await listWorkflowRuns(owner, repo, {
+    workflowId,
+    branch: options.branch,
+    created: `>=${since}`,
+    maxItems: maxRuns,
+  });
+
+  const runsBySha = new Map<string, WorkflowRun[]>();
+  for (const run of runs) {
+    runsBySha.set(run.head_sha, [...(runsBySha.get(run.head_sha) ?? []), run]);
+  }
+
+  // Only re-run runs and commits with several runs can show a fail-then-pass
+  const candidates = runs.filter(run => run.run_attempt > 1 || (runsBySha.get(run.head_sha)?.length ?? 0) > 1);
+  const attemptsByKey = new Map<string, JobAttempt[]>();
+  for (const run of candidates) {
+    const { jobs } = await getWorkflowRunJobs(owner, repo, run.id, "all", undefined, undefined, { all: true });
+    for (const job of jobs) {
+      const key = `${run.head_sha}\u0000${job.name}`;
+      attemptsByKey.set(key, [...(attemptsByKey.get(key) ?? []), { run, job }]);
+    }
+  }
+
+  const flakyJobs = new Map<string, FlakyJob>();
+
+  for (const [key, attempts] of attemptsByKey) {
+    const [headSha, jobName] = key.split("\u0000");
+    const ordered = attempts.sort((a, b) =>
+      Date.parse(a.run.created_at ?? "") - Date.parse(b.run.created_at ?? "") || a.job.run_attempt - b.job.run_attempt
+    );
+    const firstFailure = ordered.findIndex(attempt => FAILED_CONCLUSIONS.has(attempt.job.conclusion ?? ""));
+    const laterPass = firstFailure >= 0
+      ? ordered.slice(firstFailure + 1).find(attempt => attempt.job.conclusion === "success")
+      : undefined;
+    if (!laterPass) {
+      continue;
+    }
+
+    const failures = ordered
+      .slice(0, ordered.indexOf(laterPass))
+      .filter(attempt => FAILED_CONCLUSIONS.has(attempt.job.conclusion ?? ""));
+    const entry: FlakyJob = flakyJobs.get(jobName) ?? { flakyCommits: 0, timeLostSeconds: 0, steps: new Map(), evidence: [] };
+    entry.flakyCommits++;
+    for (const failure of failures) {
+      entry.timeLostSeconds += durationSeconds(failure.job);
+      for (const step of failure.job.steps.filter(step => FAILED_CONCLUSIONS.has(step.conclusion ?? ""))) {
+        entry.steps.set(step.name, (entry.steps.get(step.name) ?? 0) + 1);
+      }
+    }
+    if (entry.evidence.length < maxEvidence) {
+      entry.evidence.push({ headSha, failed: describeAttempt(failures[0]), passed: describeAttempt(laterPass) });
+    }
+    flakyJobs.set(jobName, entry);
+  }
+
+  const commitsAnalyzed = runsBySha.size;
+  const ranked = [...flakyJobs.entries()]
+    .map(([job, entry]) => ({
+      job,
+      flakyCommits: entry.flakyCommits,
+      // Share of analyzed commits on which the job failed and then passed
+      flakeRate: commitsAnalyzed > 0 ? Math.round((entry.flakyCommits / commitsAnalyzed) * 1000) / 1000 : 0,
+      timeLostSeconds: entry.timeLostSeconds,
+      steps: [...entry.steps.entries()]
+        .map(([name, failures]) => ({ name, failures }))
+        .sort((a, b) => b.failures - a.failures),
+      evidence: entry.evidence,
+    }))
+    .sort((a, b) => b.flakeRate - a.flakeRate || b.timeLostSeconds - a.timeLostSeconds);
+
+  return {
+    workflow: workflowId,
+    since,
+    ...(options.branch ? { branch: options.branch } : {}),
+    runsAnalyzed: runs.length,
+    commitsAnalyzed,
+    rerunRuns: runs.filter(run => run.run_attempt > 1).length,
+    totalTimeLostSeconds: ranked.reduce((sum, job) => sum + job.timeLostSeconds, 0),
+    flakyJobs: ranked,
+  };
+}
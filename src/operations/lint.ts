@@ -0,0 +1,371 @@
+import { z } from "zod";
+import { LineCounter, Node, Pair, Scalar, YAMLMap, isMap, isScalar, isSeq, parseDocument } from "yaml";
+import { getWorkflowYaml } from "./actions.js";
+
+/**
+ * Schema definitions
+ */
+
+// Lint workflow schema
+export const LintWorkflowSchema = z.object({
+  owner: z.string().optional().describe("Repository owner (username or organization), used with repo and workflowId"),
+  repo: z.string().optional().describe("Repository name, used with owner and workflowId"),
+  workflowId: z.string().optional().describe("The workflow file name to fetch from the repository, e.g. ci.yml"),
+  yaml: z.string().optional().describe("Raw workflow YAML to lint instead of fetching a file"),
+});
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintFinding = {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  line: number;
+  column: number;
+  path?: string;
+};
+
+/**
+ * Lint rules
+ */
+
+const WORKFLOW_KEYS = new Set(["name", "run-name", "on", "permissions", "env", "defaults", "concurrency", "jobs"]);
+const JOB_KEYS = new Set([
+  "name", "permissions", "needs", "if", "runs-on", "environment", "concurrency", "outputs", "env",
+  "defaults", "steps", "timeout-minutes", "strategy", "continue-on-error", "container", "services",
+  "uses", "with", "secrets",
+]);
+const STEP_KEYS = new Set([
+  "id", "if", "name", "uses", "run", "working-directory", "shell", "with", "env", "continue-on-error", "timeout-minutes",
+]);
+
+// Contexts an outside contributor can control, unsafe to interpolate into scripts
+const UNTRUSTED_CONTEXTS = [
+  /github\.event\.issue\.(title|body)/,
+  /github\.event\.pull_request\.(title|body)/,
+  /github\.event\.pull_request\.head\.(ref|label)/,
+  /github\.event\.pull_request\.head\.repo\.default_branch/,
+  /github\.event\.comment\.body/,
+  /github\.event\.review\.body/,
+  /github\.event\.review_comment\.body/,
+  /github\.event\.discussion\.(title|body)/,
+  /github\.event\.pages\.[^.\s]+\.page_name/,
+  /github\.event\.commits\.[^.\s]+\.(message|author\.(email|name))/,
+  /github\.event\.head_commit\.(message|author\.(email|name))/,
+  /github\.event\.workflow_run\.(head_branch|display_title|head_commit\.(message|author\.(email|name)))/,
+  /github\.head_ref/,
+];
+
+// Expressions that resolve to the head of a pull request
+const PR_HEAD_REFERENCES = /github\.event\.pull_request\.head\.(sha|ref)|github\.head_ref|refs\/pull\//;
+
+const SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+type LintContext = {
+  source: string;
+  lineCounter: LineCounter;
+  findings: LintFinding[];
+};
+
+function report(
+  context: LintContext,
+  ruleId: string,
+  severity: LintSeverity,
+  message: string,
+  offset: number | undefined,
+  path?: string
+) {
+  const { line, col } = context.lineCounter.linePos(offset ?? 0);
+  context.findings.push({ ruleId, severity, message, line, column: col, ...(path ? { path } : {}) });
+}
+
+function offsetOf(node: unknown): number | undefined {
+  return (node as Node | null)?.range?.[0];
+}
+
+function pairs(map: YAMLMap): Pair<Scalar, unknown>[] {
+  return map.items as Pair<Scalar, unknown>[];
+}
+
+function keyName(pair: Pair<Scalar, unknown>): string {
+  return isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+}
+
+function getPair(map: YAMLMap, key: string): Pair<Scalar, unknown> | undefined {
+  return pairs(map).find(pair => keyName(pair) === key);
+}
+
+function scalarValue(node: unknown): string | undefined {
+  return isScalar(node) && node.value !== null && node.value !== undefined ? String(node.value) : undefined;
+}
+
+function checkUnknownKeys(context: LintContext, map: YAMLMap, allowed: Set<string>, path: string, kind: string) {
+  for (const pair of pairs(map)) {
+    const key = keyName(pair);
+    if (!allowed.has(key)) {
+      report(context, "unknown-key", "warning", `Unknown ${kind} key "${key}"`, offsetOf(pair.key), `${path}.${key}`);
+    }
+  }
+}
+
+function checkUses(context: LintContext, node: unknown, path: string) {
+  const uses = scalarValue(node);
+  if (!uses || uses.startsWith("./")) {
+    return;
+  }
+  if (uses.startsWith("docker://")) {
+    if (!uses.includes("@sha256:")) {
+      report(context, "unpinned-action", "warning", `Docker image ${uses} is not pinned to a digest`, offsetOf(node), path);
+    }
+    return;
+  }
+  const ref = uses.split("@")[1];
+  if (!ref) {
+    report(context, "unpinned-action", "error", `Action ${uses} has no version, add @<commit SHA>`, offsetOf(node), path);
+  } else if (!SHA_PATTERN.test(ref)) {
+    report(context, "unpinned-action", "warning", `Action ${uses} is pinned to "${ref}" instead of a full commit SHA`, offsetOf(node), path);
+  }
+}
+
+// Report untrusted ${{ }} expressions at their position in the source
+function checkScriptInjection(context: LintContext, node: unknown, path: string) {
+  const script = scalarValue(node);
+  const range = (node as Node | null)?.range;
+  if (!script || !range) {
+    return;
+  }
+  const source = context.source.slice(range[0], range[1]);
+  const expression = /\$\{\{([\s\S]*?)\}\}/g;
+  let match: RegExpExecArray | null;
+  while ((match = expression.exec(source)) !== null) {
+    const untrusted = UNTRUSTED_CONTEXTS.find(pattern => pattern.test(match![1]));
+    if (untrusted) {
+      report(
+        context,
+        "script-injection",
+        "error",
+        `"${match[0].trim()}" interpolates untrusted input into a script, pass it through an env variable instead`,
+        range[0] + match.index,
+        path
+      );
+    }
+  }
+}
+
+function checkStep(context: LintContext, step: unknown, path: string, checkoutsPrHead: Array<{ offset?: number, path: string }>) {
+  if (!isMap(step)) {
+    report(context, "structure", "error", "Step must be a mapping", offsetOf(step), path);
+    return;
+  }
+  checkUnknownKeys(context, step, STEP_KEYS, path, "step");
+
+  const uses = getPair(step, "uses");
+  const run = getPair(step, "run");
+  if (!uses && !run) {
+    report(context, "structure", "error", "Step must define either uses or run", offsetOf(step), path);
+  } else if (uses && run) {
+    report(context, "structure", "error", "Step cannot define both uses and run", offsetOf(run.key), path);
+  }
+
+  if (uses) {
+    checkUses(context, uses.value, `${path}.uses`);
+  }
+  if (run) {
+    checkScriptInjection(context, run.value, `${path}.run`);
+  }
+
+  const usesValue = scalarValue(uses?.value) ?? "";
+  const withNode = getPair(step, "with")?.value;
+  if (isMap(withNode)) {
+    if (usesValue.startsWith("actions/github-script@")) {
+      checkScriptInjection(context, getPair(withNode, "script")?.value, `${path}.with.script`);
+    }
+    const ref = getPair(withNode, "ref");
+    if (usesValue.startsWith("actions/checkout@") && ref && PR_HEAD_REFERENCES.test(scalarValue(ref.value) ?? "")) {
+      checkoutsPrHead.push({ offset: offsetOf(ref.value), path: `${path}.with.ref` });
+    }
+  }
+}
+
+function findCycles(graph: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (job: string) => {
+    state.set(job, "visiting");
+    stack.push(job);
+    for (const dependency of graph.get(job) ?? []) {
+      if (!graph.has(dependency)) {
+        continue;
+      }
+      if (state.get(dependency) === "visiting") {
+        cycles.push([...stack.slice(stack.indexOf(dependency)), dependency]);
+      } else if (!state.has(dependency)) {
+        visit(dependency);
+      }
+    }
+    stack.pop();
+    state.set(job, "done");
+  };
+
+  for (const job of graph.keys()) {
+    if (!state.has(job)) {
+      visit(job);
+    }
+  }
+  return cycles;
+}
+
+/**
+ * Lint the YAML of a workflow file
+ *
+ * @param source The raw workflow YAML
+ * @returns The findings sorted by position
+ */
+export function lintWorkflowYaml(source: string): LintFinding[] {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(source, { lineCounter, uniqueKeys: true });
+  const context: LintContext = { source, lineCounter, findings: [] };
+
+  for (const error of document.errors) {
+    const message = error.message.split("\n")[0].replace(/ at line \d+, column \d+:?$/, "");
+    report(context, "syntax-error", "error", message, error.pos[0]);
+  }
+  if (document.errors.length > 0) {
+    return context.findings;
+  }
+
+  const root = document.contents;
+  if (!isMap(root)) {
+    report(context, "structure", "error", "Workflow must be a mapping", offsetOf(root));
+    return context.findings;
+  }
+  checkUnknownKeys(context, root, WORKFLOW_KEYS, "$", "workflow");
+
+  const on = getPair(root, "on") ?? getPair(root, "true");
+  if (!on) {
+    report(context, "structure", "error", "Workflow has no on: triggers", 0);
+  }
+  const onValue = on?.value;
+  const events = isMap(onValue)
+    ? pairs(onValue).map(keyName)
+    : isSeq(onValue)
+      ? onValue.items.map(item => scalarValue(item) ?? "")
+      : [scalarValue(onValue) ?? ""];
+
+  const jobs = getPair(root, "jobs");
+  if (!jobs) {
+    report(context, "structure", "error", "Workflow has no jobs", 0);
+    return context.findings;
+  }
+  if (!isMap(jobs.value) || jobs.value.items.length === 0) {
+    report(context, "structure", "error", "jobs must be a non-empty mapping", offsetOf(jobs.key), "$.jobs");
+    return context.findings;
+  }
+
+  const hasWorkflowPermissions = !!getPair(root, "permissions");
+  const jobNames = new Set(pairs(jobs.value).map(keyName));
+  const graph = new Map<string, string[]>();
+  const needsOffsets = new Map<string, number | undefined>();
+  const checkoutsPrHead: Array<{ offset?: number, path: string }> = [];
+
+  for (const jobPair of pairs(jobs.value)) {
+    const jobName = keyName(jobPair);
+    const path = `$.jobs.${jobName}`;
+    const job = jobPair.value;
+    if (!isMap(job)) {
+      report(context, "structure", "error", `Job ${jobName} must be a mapping`, offsetOf(jobPair.key), path);
+      continue;
+    }
+    checkUnknownKeys(context, job, JOB_KEYS, path, "job");
+
+    const uses = getPair(job, "uses");
+    if (uses) {
+      checkUses(context, uses.value, `${path}.uses`);
+    } else if (!getPair(job, "runs-on")) {
+      report(context, "structure", "error", `Job ${jobName} must define runs-on or uses`, offsetOf(jobPair.key), path);
+    }
+
+    if (!hasWorkflowPermissions && !getPair(job, "permissions")) {
+      report(
+        context,
+        "missing-permissions",
+        "warning",
+        `Job ${jobName} has no permissions block and the workflow sets none, so it gets the default token permissions`,
+        offsetOf(jobPair.key),
+        path
+      );
+    }
+
+    const needs = getPair(job, "needs");
+    const dependencies: string[] = [];
+    if (needs) {
+      const items = isSeq(needs.value) ? needs.value.items : [needs.value];
+      for (const item of items) {
+        const dependency = scalarValue(item);
+        if (dependency === undefined) {
+          continue;
+        }
+        dependencies.push(dependency);
+        if (!jobNames.has(dependency)) {
+          report(context, "needs-unknown-job", "error", `Job ${jobName} needs unknown job "${dependency}"`, offsetOf(item), `${path}.needs`);
+        }
+      }
+      needsOffsets.set(jobName, offsetOf(needs.key));
+    }
+    graph.set(jobName, dependencies);
+
+    const steps = getPair(job, "steps");
+    if (steps && !isSeq(steps.value)) {
+      report(context, "structure", "error", `steps of job ${jobName} must be a list`, offsetOf(steps.key), `${path}.steps`);
+    } else if (steps && isSeq(steps.value)) {
+      steps.value.items.forEach((step, index) => checkStep(context, step, `${path}.steps[${index}]`, checkoutsPrHead));
+    }
+  }
+
+  for (const cycle of findCycles(graph)) {
+    report(context, "needs-cycle", "error", `Circular needs: ${cycle.join(" -> ")}`, needsOffsets.get(cycle[0]), `$.jobs.${cycle[0]}.needs`);
+  }
+
+  if (events.includes("pull_request_target")) {
+    for (const checkout of checkoutsPrHead) {
+      report(
+        context,
+        "pull-request-target-checkout",
+        "error",
+        "pull_request_target runs with a privileged token, checking out the pull request head runs untrusted code with it",
+        checkout.offset,
+        checkout.path
+      );
+    }
+  }
+
+  return context.findings.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Function implementations
+ */
+
+// Lint a workflow file from a repository or raw YAML
+export async function lintWorkflow(
+  options: { owner?: string, repo?: string, workflowId?: string, yaml?: string }
+) {
+  let source = options.yaml;
+  if (source === undefined) {
+    if (!options.owner || !options.repo || !options.workflowId) {
+      throw new Error("Provide either yaml, or owner, repo and workflowId");
+    }
+    source = (await getWorkflowYaml(options.owner, options.repo, options.workflowId)).yaml;
+  }
+
+  const findings = lintWorkflowYaml(source);
+  const count = (severity: LintSeverity) => findings.filter(finding => finding.severity === severity).length;
+  return {
+    ...(options.workflowId ? { workflow: options.workflowId } : {}),
+    valid: count("error") === 0,
+    summary: { errors: count("error"), warnings: count("warning"), info: count("info") },
+    findings,
+  };
+}
@@ -0,0 +1,313 @@
+import { z } from "zod";
+import { githubRequest, apiUrl, validateOwnerName, validateRepositoryName } from "../common/utils.js";
+import { unzip } from "../common/zip.js";
+import { Job } from "../common/types.js";
+import { getWorkflowJob, getWorkflowRunJobs } from "./actions.js";
+
+/**
+ * Schema definitions
+ */
+
+const LogExcerptOptionsSchema = z.object({
+  failedOnly: z.boolean().optional().describe("Only return logs for failed steps (default: true)"),
+  contextLines: z.number().optional().describe("Lines of context to keep around each ##[error] marker (default: 10)"),
+  tailLines: z.number().optional().describe("Maximum number of lines returned per step, counted from the end (default: 200)"),
+  stripTimestamps: z.boolean().optional().describe("Remove the timestamp prefix from each log line (default: true)"),
+});
+
+// Get job logs schema
+export const GetJobLogsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  jobId: z.number().describe("The ID of the job"),
+}).merge(LogExcerptOptionsSchema);
+
+// Get workflow run logs schema
+export const GetWorkflowRunLogsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  runId: z.number().describe("The ID of the workflow run"),
+}).merge(LogExcerptOptionsSchema);
+
+export type LogExcerptOptions = z.infer<typeof LogExcerptOptionsSchema>;
+
+type JobStep = Job["steps"][number];
+
+export type StepLog = {
+  number: number;
+  name: string;
+  conclusion: string | null;
+  totalLines: number;
+  errorCount: number;
+  truncated: boolean;
+  log: string;
+};
+
+export type JobLog = {
+  jobId: number;
+  name: string;
+  conclusion: string | null;
+  htmlUrl: string;
+  steps: StepLog[];
+};
+
+/**
+ * Log helpers
+ */
+
+const TIMESTAMP_PREFIX = /^\uFEFF?(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.\d+)?Z ?/;
+const ERROR_MARKER = "##[error]";
+const OMITTED_MARKER = "...";
+
+function lineTimestamp(line: string): number | undefined {
+  const match = TIMESTAMP_PREFIX.exec(line);
+  return match ? Date.parse(`${match[1]}Z`) : undefined;
+}
+
+function isFailedStep(conclusion: string | null | undefined): boolean {
+  return conclusion === "failure" || conclusion === "timed_out" || conclusion === "cancelled";
+}
+
+/**
+ * Split a full job log into per-step logs using the timestamps of each line
+ * and the start time of each step. Lines logged before the first step are
+ * attributed to the first step.
+ */
+export function splitLogBySteps(log: string, steps: JobStep[]): Map<number, string[]> {
+  const result = new Map<number, string[]>();
+  const starts = steps
+    .filter(step => step.started_at)
+    .map(step => ({ number: step.number, start: Date.parse(step.started_at!) }))
+    .sort((a, b) => a.start - b.start);
+
+  if (starts.length === 0) {
+    return result;
+  }
+
+  let current = 0;
+  for (const line of log.split(/\r?\n/)) {
+    const timestamp = lineTimestamp(line);
+    if (timestamp !== undefined) {
+      // Step timestamps are second-precision, so compare at that granularity
+      const second = Math.floor(timestamp / 1000) * 1000;
+      while (current + 1 < starts.length && starts[current + 1].start <= second) {
+        current++;
+      }
+    }
+    const number = starts[current].number;
+    if (!result.has(number)) {
+      result.set(number, []);
+    }
+    result.get(number)!.push(line);
+  }
+
+  return result;
+}
+
+/**
+ * Reduce a log to the lines around ##[error] markers, capped to a tail limit
+ */
+export function excerptLog(lines: string[], options: LogExcerptOptions = {}) {
+  const contextLines = options.contextLines ?? 10;
+  const tailLines = options.tailLines ?? 200;
+  const stripTimestamps = options.stripTimestamps ?? true;
+
+  const cleaned = lines
+    .map(line => stripTimestamps ? line.replace(TIMESTAMP_PREFIX, "") : line.replace(/^\uFEFF/, ""));
+  while (cleaned.length > 0 && cleaned[cleaned.length - 1] === "") {
+    cleaned.pop();
+  }
+
+  const errorIndexes = cleaned
+    .map((line, index) => line.includes(ERROR_MARKER) ? index : -1)
+    .filter(index => index >= 0);
+
+  let excerpt: string[];
+  if (errorIndexes.length > 0) {
+    // Merge overlapping windows around each error marker
+    const windows: Array<[number, number]> = [];
+    for (const index of errorIndexes) {
+      const start = Math.max(0, index - contextLines);
+      const end = Math.min(cleaned.length - 1, index + contextLines);
+      const last = windows[windows.length - 1];
+      if (last && start <= last[1] + 1) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        windows.push([start, end]);
+      }
+    }
+    excerpt = [];
+    windows.forEach(([start, end], i) => {
+      if (start > 0 || i > 0) {
+        excerpt.push(OMITTED_MARKER);
+      }
+      excerpt.push(...cleaned.slice(start, end + 1));
+    });
+    if (windows[windows.length - 1][1] < cleaned.length - 1) {
+      excerpt.push(OMITTED_MARKER);
+    }
+  } else {
+    excerpt = cleaned;
+  }
+
+  const truncated = excerpt.length > tailLines || excerpt !== cleaned;
+  if (excerpt.length > tailLines) {
+    excerpt = [OMITTED_MARKER, ...excerpt.slice(excerpt.length - tailLines)];
+  }
+
+  return {
+    totalLines: cleaned.length,
+    errorCount: errorIndexes.length,
+    truncated,
+    log: excerpt.join("\n"),
+  };
+}
+
+function buildStepLogs(
+  job: Job,
+  stepLines: Map<number, string[]>,
+  options: LogExcerptOptions
+): StepLog[] {
+  const failedOnly = options.failedOnly ?? true;
+  const hasFailedStep = job.steps.some(step => isFailedStep(step.conclusion));
+
+  return job.steps
+    .filter(step => stepLines.has(step.number))
+    // Fall back to every step when the job failed without a failed step (e.g. a runner error)
+    .filter(step => !failedOnly || !hasFailedStep || isFailedStep(step.conclusion))
+    .map(step => ({
+      number: step.number,
+      name: step.name,
+      conclusion: step.conclusion,
+      ...excerptLog(stepLines.get(step.number)!, options),
+    }));
+}
+
+function buildJobLog(job: Job, stepLines: Map<number, string[]>, options: LogExcerptOptions): JobLog {
+  return {
+    jobId: job.id,
+    name: job.name,
+    conclusion: job.conclusion,
+    htmlUrl: job.html_url,
+    steps: buildStepLogs(job, stepLines, options),
+  };
+}
+
+// Job and step names in the log archive have characters such as '/' and ':' removed
+function normalizeLogName(name: string): string {
+  return name.replace(/[^a-z0-9]/gi, "").toLowerCase();
+}
+
+/**
+ * Function implementations
+ */
+
+// Get the complete plain text log of a job
+export async function getJobLogText(
+  owner: string,
+  repo: string,
+  jobId: number
+): Promise<string> {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  // Redirects to a short-lived download URL for the plain text log
+  const url = apiUrl(`/repos/${owner}/${repo}/actions/jobs/${jobId}/logs`);
+  const response = await githubRequest(url);
+  return typeof response === "string" ? response : JSON.stringify(response);
+}
+
+// Get the logs of a single job
+export async function getJobLogs(
+  owner: string,
+  repo: string,
+  jobId: number,
+  options: LogExcerptOptions = {}
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const job = await getWorkflowJob(owner, repo, jobId);
+  const log = await getJobLogText(owner, repo, jobId);
+
+  const stepLines = splitLogBySteps(log, job.steps);
+  if (stepLines.size === 0) {
+    // The job has no step timing yet, so return the whole log as one excerpt
+    return {
+      jobId: job.id,
+      name: job.name,
+      conclusion: job.conclusion,
+      htmlUrl: job.html_url,
+      steps: [],
+      ...excerptLog(log.split(/\r?\n/), options),
+    };
+  }
+
+  return buildJobLog(job, stepLines, options);
+}
+
+// Get the logs of every job in a workflow run
+export async function getWorkflowRunLogs(
+  owner: string,
+  repo: string,
+  runId: number,
+  options: LogExcerptOptions = {}
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const failedOnly = options.failedOnly ?? true;
+  const { jobs } = await getWorkflowRunJobs(owner, repo, runId, "latest", undefined, undefined, { all: true });
+
+  // Redirects to a short-lived download URL for a zip archive of all job logs
+  const url = apiUrl(`/repos/${owner}/${repo}/actions/runs/${runId}/logs`);
+  const archive = await githubRequest(url, { responseType: "buffer" }) as Buffer;
+  const entries = unzip(archive);
+
+  // The archive holds one "<n>_<job>.txt" file per job and, for older runs,
+  // a "<job>/<step number>_<step>.txt" file per step
+  const jobLogs = new Map<string, string>();
+  const stepLogs = new Map<string, Map<number, string[]>>();
+  for (const entry of entries) {
+    const parts = entry.name.split("/");
+    const file = /^(\d+)_(.*)\.txt$/.exec(parts[parts.length - 1]);
+    if (!file) {
+      continue;
+    }
+    if (parts.length === 1) {
+      jobLogs.set(normalizeLogName(file[2]), entry.data.toString("utf8"));
+    } else if (parts.length === 2) {
+      const jobKey = normalizeLogName(parts[0]);
+      if (!stepLogs.has(jobKey)) {
+        stepLogs.set(jobKey, new Map());
+      }
+      stepLogs.get(jobKey)!.set(Number(file[1]), entry.data.toString("utf8").split(/\r?\n/));
+    }
+  }
+
+  const results: JobLog[] = [];
+  const missing: string[] = [];
+  for (const job of jobs) {
+    if (failedOnly && !isFailedStep(job.conclusion)) {
+      continue;
+    }
+    const key = normalizeLogName(job.name);
+    let stepLines = stepLogs.get(key);
+    if (!stepLines || stepLines.size === 0) {
+      const log = jobLogs.get(key);
+      stepLines = log !== undefined ? splitLogBySteps(log, job.steps) : undefined;
+    }
+    if (!stepLines || stepLines.size === 0) {
+      missing.push(job.name);
+      continue;
+    }
+    results.push(buildJobLog(job, stepLines, options));
+  }
+
+  return {
+    runId,
+    totalJobs: jobs.length,
+    jobs: results,
+    ...(missing.length > 0 ? { jobsWithoutLogs: missing } : {}),
+  };
+}
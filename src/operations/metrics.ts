@@ -0,0 +1,238 @@
+import { z } from "zod";
+import { validateOwnerName, validateRepositoryName } from "../common/utils.js";
+import { InvalidArgumentError } from "../common/errors.js";
+import { WorkflowRun } from "../common/types.js";
+import { listWorkflowRuns } from "./actions.js";
+
+/**
+ * Schema definitions
+ */
+
+// Get workflow metrics schema
+export const GetWorkflowMetricsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  workflowId: z.string().describe("The ID of the workflow or filename (string or number)"),
+  branch: z.string().optional().describe("Only include runs on this branch"),
+  from: z.string().optional().describe("Start date (YYYY-MM-DD, default: 30 days ago)"),
+  to: z.string().optional().describe("End date (YYYY-MM-DD, default: today)"),
+  bucket: z.enum(["day", "week"]).optional().describe("Bucket size for the trend (default: day)"),
+  maxRuns: z.number().optional().describe("Maximum number of runs to aggregate (default: 1000)"),
+});
+
+export type RunStats = {
+  runs: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  successRate: number | null;
+  durationSeconds: { p50: number | null, p90: number | null, p99: number | null };
+  queueSeconds: { p50: number | null, p90: number | null };
+};
+
+export type WorkflowMetrics = RunStats & {
+  workflow: string;
+  branch?: string;
+  from: string;
+  to: string;
+  bucket: "day" | "week";
+  runsPerDay: number;
+  meanTimeToRecoverySeconds: number | null;
+  recoveries: number;
+  truncated: boolean;
+  buckets: Array<RunStats & { start: string }>;
+};
+
+/**
+ * Metric helpers
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FAILED_CONCLUSIONS = new Set(["failure", "timed_out", "startup_failure"]);
+
+// Accept only real calendar dates, e.g. not 2024-02-30
+function validateDate(value: string, argument: "from" | "to"): string {
+  const date = value.trim();
+  const time = Date.parse(date);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(time) || new Date(time).toISOString().slice(0, 10) !== date) {
+    throw new InvalidArgumentError(`${argument} must be a date in YYYY-MM-DD format, got "${value}"`, argument);
+  }
+  return date;
+}
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  // Nearest-rank percentile
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function seconds(start: string | null | undefined, end: string | null | undefined): number | null {
+  if (!start || !end) {
+    return null;
+  }
+  return Math.max(0, Math.round((Date.parse(end) - Date.parse(start)) / 1000));
+}
+
+function computeStats(runs: WorkflowRun[]): RunStats {
+  const completed = runs.filter(run => run.status === "completed");
+  const succeeded = completed.filter(run => run.conclusion === "success").length;
+  const failed = completed.filter(run => FAILED_CONCLUSIONS.has(run.conclusion ?? "")).length;
+  const durations = completed
+    .map(run => seconds(run.run_started_at, run.updated_at))
+    .filter((value): value is number => value !== null);
+  // Re-runs keep the original created_at, so only first attempts have a meaningful queue time
+  const queues = runs
+    .filter(run => run.run_attempt === 1)
+    .map(run => seconds(run.created_at, run.run_started_at))
+    .filter((value): value is number => value !== null);
+
+  return {
+    runs: runs.length,
+    completed: completed.length,
+    succeeded,
+    failed,
+    cancelled: completed.filter(run => run.conclusion === "cancelled").length,
+    successRate: succeeded + failed > 0 ? Math.round((succeeded / (succeeded + failed)) * 1000) / 1000 : null,
+    durationSeconds: { p50: percentile(durations, 50), p90: percentile(durations, 90), p99: percentile(durations, 99) },
+    queueSeconds: { p50: percentile(queues, 50), p90: percentile(queues, 90) },
+  };
+}
+
+/**
+ * Time from the first failing run after a success to the next successful run,
+ * tracked per branch so that feature branches do not mask each other
+ */
+function computeRecoveries(runs: WorkflowRun[]): number[] {
+  const byBranch = new Map<string, WorkflowRun[]>();
+  for (const run of runs.filter(run => run.status === "completed")) {
+    const branch = run.head_branch ?? "";
+    byBranch.set(branch, [...(byBranch.get(branch) ?? []), run]);
+  }
+
+  const recoveries: number[] = [];
+  for (const branchRuns of byBranch.values()) {
+    branchRuns.sort((a, b) => Date.parse(a.created_at ?? "") - Date.parse(b.created_at ?? ""));
+    let brokenAt: string | null | undefined;
+    for (const run of branchRuns) {
+      if (FAILED_CONCLUSIONS.has(run.conclusion ?? "") && brokenAt === undefined) {
+        brokenAt = run.updated_at;
+      } else if (run.conclusion === "success" && brokenAt !== undefined) {
+        const recovery = seconds(brokenAt, run.updated_at);
+        if (recovery !== null) {
+          recoveries.push(recovery);
+        }
+        brokenAt = undefined;
+      }
+    }
+  }
+  return recoveries;
+}
+
+function bucketStart(date: string, bucket: "day" | "week"): string {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  if (bucket === "week") {
+    // Weeks start on Monday
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  }
+  return day.toISOString().slice(0, 10);
+}
+
+function formatSeconds(value: number | null): string {
+  if (value === null) {
+    return "-";
+  }
+  return value >= 60 ? `${Math.floor(value / 60)}m${String(value % 60).padStart(2, "0")}s` : `${value}s`;
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? "-" : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Render metrics as a compact markdown table for chat clients
+ */
+export function renderMetricsMarkdown(metrics: WorkflowMetrics): string {
+  const lines = [
+    `**${metrics.workflow}**${metrics.branch ? ` on \`${metrics.branch}\`` : ""}, ${metrics.from} to ${metrics.to}: ` +
+      `${metrics.runs} runs (${metrics.runsPerDay}/day), success ${formatRate(metrics.successRate)}, ` +
+      `p50 ${formatSeconds(metrics.durationSeconds.p50)}, p90 ${formatSeconds(metrics.durationSeconds.p90)}, ` +
+      `MTTR ${formatSeconds(metrics.meanTimeToRecoverySeconds)}`,
+    "",
+    `| ${metrics.bucket === "week" ? "Week of" : "Day"} | Runs | Success | p50 | p90 | p99 | Queue p50 |`,
+    "|---|---:|---:|---:|---:|---:|---:|",
+    ...metrics.buckets.map(bucket =>
+      `| ${bucket.start} | ${bucket.runs} | ${formatRate(bucket.successRate)} | ${formatSeconds(bucket.durationSeconds.p50)} | ` +
+      `${formatSeconds(bucket.durationSeconds.p90)} | ${formatSeconds(bucket.durationSeconds.p99)} | ${formatSeconds(bucket.queueSeconds.p50)} |`
+    ),
+  ];
+  if (metrics.truncated) {
+    lines.push("", "_Only the most recent runs up to the run limit were included._");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Function implementations
+ */
+
+// Aggregate run history of a workflow into health metrics
+export async function getWorkflowMetrics(
+  owner: string,
+  repo: string,
+  workflowId: string,
+  options: { branch?: string, from?: string, to?: string, bucket?: "day" | "week", maxRuns?: number } = {}
+): Promise<WorkflowMetrics> {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const to = options.to !== undefined ? validateDate(options.to, "to") : new Date().toISOString().slice(0, 10);
+  const from = options.from !== undefined
+    ? validateDate(options.from, "from")
+    : new Date(Date.parse(to) - 30 * DAY_MS).toISOString().slice(0, 10);
+  if (from > to) {
+    throw new InvalidArgumentError(`from (${from}) is after to (${to})`, "from");
+  }
+  const bucket = options.bucket ?? "day";
+  const maxRuns = options.maxRuns ?? 1000;
+
+  const { workflow_runs: runs, has_more: truncated } = await listWorkflowRuns(owner, repo, {
+    workflowId,
+    branch: options.branch,
+    created: `${from}..${to}`,
+    maxItems: maxRuns,
+  });
+
+  const grouped = new Map<string, WorkflowRun[]>();
+  for (const run of runs) {
+    if (!run.created_at) {
+      continue;
+    }
+    const start = bucketStart(run.created_at, bucket);
+    grouped.set(start, [...(grouped.get(start) ?? []), run]);
+  }
+
+  const recoveries = computeRecoveries(runs);
+  const days = Math.max(1, Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS) + 1);
+
+  return {
+    workflow: workflowId,
+    ...(options.branch ? { branch: options.branch } : {}),
+    from,
+    to,
+    bucket,
+    ...computeStats(runs),
+    runsPerDay: Math.round((runs.length / days) * 10) / 10,
+    meanTimeToRecoverySeconds: recoveries.length > 0
+      ? Math.round(recoveries.reduce((sum, value) => sum + value, 0) / recoveries.length)
+      : null,
+    recoveries: recoveries.length,
+    truncated,
+    buckets: [...grouped.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([start, bucketRuns]) => ({ start, ...computeStats(bucketRuns) })),
+  };
+}
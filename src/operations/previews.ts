@@ -0,0 +1,172 @@
+import { z } from "zod";
+import { InvalidArgumentError, WorkflowInputValidationError } from "../common/errors.js";
+import {
+  RerunMode,
+  WorkflowInputValue,
+  getWorkflow,
+  getWorkflowRun,
+  getWorkflowRunJobs,
+  listWorkflowRuns,
+  resolveRerunMode,
+  validateWorkflowInputs,
+} from "./actions.js";
+import { getArtifact } from "./artifacts.js";
+
+/**
+ * Schema definitions
+ */
+
+// Options added to every mutating tool
+export const ConfirmationOptionsSchema = z.object({
+  dryRun: z.boolean().optional().describe("Only return a preview of the action and a confirmation token; nothing is changed"),
+  confirmationToken: z.string().optional().describe("Token from a previous preview that confirms this exact call"),
+});
+
+export type MutationPreview = {
+  summary: string;
+  [key: string]: unknown;
+};
+
+/**
+ * Function implementations
+ */
+
+// Preview a workflow dispatch: the resolved workflow, inputs after defaults, and runs already active on the ref
+export async function previewTriggerWorkflow(
+  owner: string,
+  repo: string,
+  workflowId: string | number,
+  ref: string,
+  inputs: Record<string, WorkflowInputValue> = {}
+): Promise<MutationPreview> {
+  const workflow = await getWorkflow(owner, repo, workflowId);
+
+  let resolvedInputs: Record<string, string> | undefined;
+  let inputErrors: Array<{ input: string, error: string }> | undefined;
+  try {
+    resolvedInputs = await validateWorkflowInputs(owner, repo, workflow.path.split("/").pop()!, inputs);
+  } catch (error) {
+    if (!(error instanceof WorkflowInputValidationError)) {
+      throw error;
+    }
+    inputErrors = error.errors;
+  }
+
+  const branch = ref.replace(/^refs\/heads\//, "");
+  const [inProgress, queued] = await Promise.all(
+    ["in_progress", "queued"].map(status => listWorkflowRuns(owner, repo, { workflowId: workflow.id, branch, status, perPage: 10 }))
+  );
+  const activeRuns = [...inProgress.workflow_runs, ...queued.workflow_runs].map(run => ({
+    id: run.id,
+    status: run.status,
+    event: run.event,
+    createdAt: run.created_at,
+    htmlUrl: run.html_url,
+  }));
+
+  return {
+    summary: `Dispatch "${workflow.name}" (${workflow.path}) on ${ref} in ${owner}/${repo}`
+      + (resolvedInputs && Object.keys(resolvedInputs).length > 0
+        ? ` with ${Object.entries(resolvedInputs).map(([name, value]) => `${name}=${value}`).join(", ")}`
+        : ""),
+    workflow: { id: workflow.id, name: workflow.name, path: workflow.path, state: workflow.state },
+    ref,
+    ...(resolvedInputs ? { inputs: resolvedInputs } : {}),
+    ...(inputErrors ? { inputErrors } : {}),
+    activeRuns,
+  };
+}
+
+// Preview an action on an existing run with its current state
+export async function previewRunAction(
+  owner: string,
+  repo: string,
+  runId: number,
+  action: "cancel" | "rerun"
+): Promise<MutationPreview> {
+  const run = await getWorkflowRun(owner, repo, runId);
+  return {
+    summary: `${action === "cancel" ? "Cancel" : "Re-run"} run ${run.id} of "${run.name ?? run.path}" `
+      + `on ${run.head_branch ?? run.head_sha} in ${owner}/${repo} (currently ${run.conclusion ?? run.status}, attempt ${run.run_attempt})`,
+    run: {
+      id: run.id,
+      name: run.name,
+      path: run.path,
+      event: run.event,
+      headBranch: run.head_branch,
+      headSha: run.head_sha,
+      status: run.status,
+      conclusion: run.conclusion,
+      runAttempt: run.run_attempt,
+      htmlUrl: run.html_url,
+    },
+  };
+}
+
+// Preview a re-run with the jobs it starts again
+export async function previewRerunWorkflow(
+  owner: string,
+  repo: string,
+  runId: number,
+  options: { mode?: RerunMode, jobId?: number, enableDebugLogging?: boolean } = {}
+): Promise<MutationPreview> {
+  const mode = resolveRerunMode(options.mode, options.jobId);
+  const preview = await previewRunAction(owner, repo, runId, "rerun");
+  const { jobs } = await getWorkflowRunJobs(owner, repo, runId, "latest", undefined, undefined, { all: true });
+  const rerunJobs = mode === "all" ? jobs
+    : mode === "failed" ? jobs.filter(job => job.conclusion === "failure" || job.conclusion === "cancelled" || job.conclusion === "timed_out")
+    : jobs.filter(job => job.id === options.jobId);
+  if (mode === "job" && rerunJobs.length === 0) {
+    throw new InvalidArgumentError(`Job ${options.jobId} is not part of the latest attempt of run ${runId}`, "jobId");
+  }
+  const scope = mode === "all" ? `all ${jobs.length} jobs`
+    : mode === "failed" ? `${rerunJobs.length} failed jobs and their dependents`
+    : `job "${rerunJobs[0].name}" and its dependents`;
+  return {
+    ...preview,
+    summary: `${preview.summary}: ${scope}${options.enableDebugLogging ? ", with debug logging" : ""}`,
+    mode,
+    enableDebugLogging: options.enableDebugLogging ?? false,
+    jobs: rerunJobs.map(job => ({ id: job.id, name: job.name, conclusion: job.conclusion })),
+  };
+}
+
+// Preview deleting an artifact
+export async function previewDeleteArtifact(
+  owner: string,
+  repo: string,
+  artifactId: number
+): Promise<MutationPreview> {
+  const artifact = await getArtifact(owner, repo, artifactId);
+  return {
+    summary: `Delete artifact "${artifact.name}" (${artifact.size_in_bytes} bytes) from ${owner}/${repo}`,
+    artifact,
+  };
+}
+
+/**
+ * Build the preview for a call to a mutating tool
+ *
+ * @param tool The tool name
+ * @param request The tool arguments
+ * @returns The preview, or undefined for tools without one
+ */
+export async function previewMutation(tool: string, request: Record<string, any>): Promise<MutationPreview | undefined> {
+  switch (tool) {
+    case "trigger_workflow":
+    case "trigger_workflow_and_wait":
+      return previewTriggerWorkflow(request.owner, request.repo, request.workflowId, request.ref, request.inputs);
+    case "cancel_workflow_run":
+      return previewRunAction(request.owner, request.repo, request.runId, "cancel");
+    case "rerun_workflow":
+      return previewRerunWorkflow(request.owner, request.repo, request.runId, {
+        mode: request.mode,
+        jobId: request.jobId,
+        enableDebugLogging: request.enableDebugLogging,
+      });
+    case "delete_artifact":
+      return previewDeleteArtifact(request.owner, request.repo, request.artifactId);
+    default:
+      return undefined;
+  }
+}
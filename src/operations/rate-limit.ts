@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { githubRequest, apiUrl } from "../common/utils.js";
+import { credentialKey, getRateLimitState } from "../common/rate-limit.js";
+import { resolveAuthorization } from "../common/auth.js";
+
+/**
+ * Schema definitions
+ */
+
+// Get rate limit status schema
+export const GetRateLimitStatusSchema = z.object({
+  refresh: z.boolean().optional().describe("Fetch the current budget from GitHub; this does not count against the rate limit (default: true)"),
+});
+
+const RateLimitResourceSchema = z.object({
+  limit: z.number(),
+  remaining: z.number(),
+  reset: z.number(),
+  used: z.number(),
+});
+
+const RateLimitResponseSchema = z.object({
+  resources: z.record(z.string(), RateLimitResourceSchema),
+});
+
+/**
+ * Function implementations
+ */
+
+// Get the remaining GitHub API budget of the caller's credential and the state of the request queue
+export async function getRateLimitStatus(refresh = true) {
+  const url = apiUrl("/rate_limit");
+  let resources: Record<string, { limit: number, remaining: number, used: number, resetAt: string }> | undefined;
+  if (refresh) {
+    const response = RateLimitResponseSchema.parse(await githubRequest(url));
+    resources = Object.fromEntries(
+      Object.entries(response.resources).map(([name, { limit, remaining, used, reset }]) => [
+        name,
+        { limit, remaining, used, resetAt: new Date(reset * 1000).toISOString() },
+      ])
+    );
+  }
+
+  return {
+    ...(resources ? { resources } : {}),
+    ...getRateLimitState(credentialKey(await resolveAuthorization(url))),
+  };
+}
@@ -0,0 +1,152 @@
+import { z } from "zod";
+import { validateOwnerName, validateRepositoryName } from "../common/utils.js";
+import { parseWorkflowYaml, findTrigger } from "../common/workflow-definition.js";
+import { CronSchedule, describeCron, nextFireTimes, parseCron } from "../common/cron.js";
+import { getWorkflowYaml, listWorkflowRuns } from "./actions.js";
+
+/**
+ * Schema definitions
+ */
+
+// Get workflow schedule schema
+export const GetWorkflowScheduleSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  workflowId: z.string().describe("The workflow file name, e.g. nightly.yml"),
+  count: z.number().optional().describe("Number of upcoming fire times to return per schedule (default: 5)"),
+  historyCount: z.number().optional().describe("Number of recent scheduled runs to compare against the schedule, 0 to skip (default: 30, max 100)"),
+});
+
+/**
+ * Schedule helpers
+ */
+
+// GitHub can start scheduled runs well after their due time under load
+const MAX_EXPECTED_DELAY_MS = 3 * 60 * 60 * 1000;
+// Runs starting later than this are reported as delayed
+const DELAYED_THRESHOLD_MINUTES = 15;
+// Upper bound on the number of due times compared against the run history
+const MAX_DUE_TIMES = 2000;
+
+type ScheduledRun = {
+  id: number;
+  createdAt: string;
+  htmlUrl: string;
+};
+
+function minutesBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / 60000);
+}
+
+/**
+ * Match scheduled runs to the times they were due
+ *
+ * A run belongs to the latest due time at or before its creation. Due times
+ * after the first matched one that never got a run were skipped by GitHub.
+ */
+function compareWithHistory(schedules: CronSchedule[], runs: ScheduledRun[], now: Date) {
+  const sorted = [...runs].sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+  if (sorted.length === 0) {
+    return { runsChecked: 0 };
+  }
+
+  const windowStart = new Date(Date.parse(sorted[0].createdAt) - MAX_EXPECTED_DELAY_MS);
+  const dueTimes = schedules
+    .flatMap(schedule => nextFireTimes(schedule, windowStart, MAX_DUE_TIMES, now))
+    .map(date => date.getTime())
+    .filter((time, index, all) => all.indexOf(time) === index)
+    .sort((a, b) => a - b);
+
+  const matched = new Map<number, ScheduledRun>();
+  const unmatchedRuns: ScheduledRun[] = [];
+  for (const run of sorted) {
+    const created = Date.parse(run.createdAt);
+    const due = dueTimes.filter(time => time <= created && created - time <= MAX_EXPECTED_DELAY_MS).pop();
+    if (due === undefined || matched.has(due)) {
+      unmatchedRuns.push(run);
+    } else {
+      matched.set(due, run);
+    }
+  }
+
+  const firstMatched = Math.min(...matched.keys());
+  const matches = [...matched.entries()].map(([due, run]) => ({
+    due: new Date(due).toISOString(),
+    runId: run.id,
+    createdAt: run.createdAt,
+    delayMinutes: minutesBetween(new Date(due), new Date(run.createdAt)),
+    htmlUrl: run.htmlUrl,
+  }));
+  const delays = matches.map(match => match.delayMinutes);
+
+  return {
+    runsChecked: sorted.length,
+    averageDelayMinutes: delays.length > 0 ? Math.round(delays.reduce((sum, delay) => sum + delay, 0) / delays.length) : null,
+    maxDelayMinutes: delays.length > 0 ? Math.max(...delays) : null,
+    delayed: matches.filter(match => match.delayMinutes > DELAYED_THRESHOLD_MINUTES),
+    // Recent due times may still get a run, so only report those past the maximum delay
+    skipped: dueTimes
+      .filter(time => time > firstMatched && !matched.has(time) && now.getTime() - time > MAX_EXPECTED_DELAY_MS)
+      .map(time => new Date(time).toISOString()),
+    ...(unmatchedRuns.length > 0 ? { unmatchedRuns: unmatchedRuns.map(run => run.id) } : {}),
+  };
+}
+
+/**
+ * Function implementations
+ */
+
+// Explain the cron schedules of a workflow and predict the next runs
+export async function getWorkflowSchedule(
+  owner: string,
+  repo: string,
+  workflowId: string,
+  options: { count?: number, historyCount?: number } = {}
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const count = options.count ?? 5;
+  const historyCount = Math.min(options.historyCount ?? 30, 100);
+  const now = new Date();
+
+  const { yaml: yamlContent } = await getWorkflowYaml(owner, repo, workflowId);
+  const trigger = findTrigger(parseWorkflowYaml(yamlContent), "schedule");
+  if (!trigger || !trigger.schedules || trigger.schedules.length === 0) {
+    return { workflow: workflowId, schedules: [], message: `Workflow ${workflowId} has no schedule trigger` };
+  }
+
+  const parsed: CronSchedule[] = [];
+  const schedules = trigger.schedules.map(expression => {
+    try {
+      const schedule = parseCron(expression);
+      parsed.push(schedule);
+      return {
+        cron: expression,
+        description: describeCron(schedule),
+        nextRuns: nextFireTimes(schedule, now, count).map(date => date.toISOString()),
+      };
+    } catch (error) {
+      return { cron: expression, error: (error as Error).message };
+    }
+  });
+
+  const result: Record<string, unknown> = { workflow: workflowId, timezone: "UTC", schedules };
+
+  if (historyCount > 0 && parsed.length > 0) {
+    const { workflow_runs } = await listWorkflowRuns(owner, repo, {
+      workflowId,
+      event: "schedule",
+      perPage: historyCount,
+    });
+    result.history = compareWithHistory(
+      parsed,
+      workflow_runs
+        .filter(run => run.created_at)
+        .map(run => ({ id: run.id, createdAt: run.created_at!, htmlUrl: run.html_url })),
+      now
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,417 @@
+import path from "path";
+import { z } from "zod";
+import { XMLParser } from "fast-xml-parser";
+import yaml from "js-yaml";
+import { validateOwnerName, validateRepositoryName } from "../common/utils.js";
+import { InvalidArgumentError } from "../common/errors.js";
+import { getWorkflowRun, listWorkflowRuns } from "./actions.js";
+import { downloadArtifactArchive, listRunArtifacts } from "./artifacts.js";
+
+/**
+ * Schema definitions
+ */
+
+// Get run test results schema
+export const GetRunTestResultsSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  runId: z.number().describe("The ID of the workflow run"),
+  artifactPattern: z.string().optional().describe("Regular expression matched against artifact names to select test reports (default: test|junit|xunit|trx|tap|report|result)"),
+  compareWithLastSuccess: z.boolean().optional().describe("Diff failures against the latest successful run of the same workflow on the same branch"),
+  maxFailures: z.number().optional().describe("Maximum number of failing cases returned (default: 50)"),
+});
+
+export type TestReportFormat = "junit" | "xunit" | "trx" | "tap";
+
+export type TestCaseResult = {
+  name: string;
+  classname?: string;
+  suite?: string;
+  outcome: "passed" | "failed" | "error" | "skipped";
+  durationSeconds?: number;
+  message?: string;
+  stack?: string;
+  file?: string;
+  line?: number;
+};
+
+export type TestReport = {
+  artifact: string;
+  file: string;
+  format: TestReportFormat;
+  cases: TestCaseResult[];
+};
+
+export type TestTotals = {
+  total: number;
+  passed: number;
+  failed: number;
+  errored: number;
+  skipped: number;
+};
+
+/**
+ * Report parsers
+ */
+
+const DEFAULT_ARTIFACT_PATTERN = /test|junit|xunit|trx|tap|report|result/i;
+const DEFAULT_MAX_FAILURES = 50;
+// Archives above this size are skipped, test reports are expected to be small
+const MAX_REPORT_ARTIFACT_BYTES = 50 * 1024 * 1024;
+const STACK_EXCERPT_LINES = 10;
+
+type XmlNode = Record<string, any>;
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  alwaysCreateTextNode: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  isArray: (_name, _jpath, _isLeafNode, isAttribute) => !isAttribute,
+});
+
+function children(node: XmlNode | undefined, tag: string): XmlNode[] {
+  return node?.[tag] ?? [];
+}
+
+function child(node: XmlNode | undefined, tag: string): XmlNode | undefined {
+  return children(node, tag)[0];
+}
+
+function attr(node: XmlNode | undefined, name: string): string | undefined {
+  return node?.[`@_${name}`];
+}
+
+function text(node: XmlNode | undefined): string | undefined {
+  const value = node?.["#text"];
+  return value === undefined || value === "" ? undefined : String(value).trim();
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// TRX durations are formatted as hh:mm:ss.fffffff
+function parseTimeSpan(value: string | undefined): number | undefined {
+  const match = value ? /^(\d+):(\d+):(\d+(?:\.\d+)?)$/.exec(value) : null;
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : undefined;
+}
+
+function excerptStack(stack: string | undefined): string | undefined {
+  if (!stack) {
+    return undefined;
+  }
+  const lines = stack.split(/\r?\n/);
+  return lines.length > STACK_EXCERPT_LINES
+    ? [...lines.slice(0, STACK_EXCERPT_LINES), "..."].join("\n")
+    : stack;
+}
+
+/**
+ * Find the first source location in a stack trace, covering the
+ * "(file.ts:12:3)", "file.py:12" and ".NET "in File.cs:line 12" styles
+ */
+export function findSourceLocation(stack: string | undefined): { file?: string, line?: number } {
+  if (!stack) {
+    return {};
+  }
+  const patterns = [
+    / in (.+?):line (\d+)/,
+    /\(([^()\s]+?):(\d+)(?::\d+)?\)/,
+    /File "([^"]+)", line (\d+)/,
+    /([\w./\\-]+\.\w+):(\d+)/,
+  ];
+  for (const pattern of patterns) {
+    const match = pattern.exec(stack);
+    if (match) {
+      return { file: match[1], line: Number(match[2]) };
+    }
+  }
+  return {};
+}
+
+function withLocation(result: TestCaseResult, file?: string, line?: number): TestCaseResult {
+  const location = file ? { file, line } : findSourceLocation(result.stack);
+  return {
+    ...result,
+    ...(location.file ? { file: location.file } : {}),
+    ...(location.line !== undefined ? { line: location.line } : {}),
+    stack: excerptStack(result.stack),
+  };
+}
+
+function parseJUnit(root: XmlNode): TestCaseResult[] {
+  const results: TestCaseResult[] = [];
+  const visitSuite = (suite: XmlNode) => {
+    const suiteName = attr(suite, "name");
+    for (const testcase of children(suite, "testcase")) {
+      const failure = child(testcase, "failure");
+      const error = child(testcase, "error");
+      const problem = failure ?? error;
+      const outcome = failure ? "failed" : error ? "error" : child(testcase, "skipped") ? "skipped" : "passed";
+      results.push(withLocation({
+        name: attr(testcase, "name") ?? "(unnamed)",
+        classname: attr(testcase, "classname"),
+        suite: suiteName,
+        outcome,
+        durationSeconds: toNumber(attr(testcase, "time")),
+        message: problem ? attr(problem, "message") ?? text(problem)?.split(/\r?\n/)[0] : undefined,
+        stack: problem ? text(problem) : undefined,
+      }, attr(testcase, "file"), toNumber(attr(testcase, "line"))));
+    }
+    children(suite, "testsuite").forEach(visitSuite);
+  };
+  children(root, "testsuites").forEach(visitSuite);
+  children(root, "testsuite").forEach(visitSuite);
+  return results;
+}
+
+function parseXUnit(root: XmlNode): TestCaseResult[] {
+  const results: TestCaseResult[] = [];
+  for (const assemblies of children(root, "assemblies")) {
+    for (const assembly of children(assemblies, "assembly")) {
+      for (const collection of children(assembly, "collection")) {
+        for (const test of children(collection, "test")) {
+          const failure = child(test, "failure");
+          const result = attr(test, "result");
+          results.push(withLocation({
+            name: attr(test, "name") ?? "(unnamed)",
+            classname: attr(test, "type"),
+            suite: attr(collection, "name"),
+            outcome: result === "Fail" ? "failed" : result === "Skip" ? "skipped" : "passed",
+            durationSeconds: toNumber(attr(test, "time")),
+            message: text(child(failure, "message")),
+            stack: text(child(failure, "stack-trace")),
+          }));
+        }
+      }
+    }
+  }
+  return results;
+}
+
+function parseTrx(root: XmlNode): TestCaseResult[] {
+  const testRun = child(root, "TestRun");
+  const classNames = new Map<string, string | undefined>();
+  for (const definitions of children(testRun, "TestDefinitions")) {
+    for (const unitTest of children(definitions, "UnitTest")) {
+      classNames.set(attr(unitTest, "id") ?? "", attr(child(unitTest, "TestMethod"), "className"));
+    }
+  }
+
+  const results: TestCaseResult[] = [];
+  for (const resultsNode of children(testRun, "Results")) {
+    for (const unitTestResult of children(resultsNode, "UnitTestResult")) {
+      const outcome = attr(unitTestResult, "outcome");
+      const errorInfo = child(child(unitTestResult, "Output"), "ErrorInfo");
+      results.push(withLocation({
+        name: attr(unitTestResult, "testName") ?? "(unnamed)",
+        classname: classNames.get(attr(unitTestResult, "testId") ?? ""),
+        outcome: outcome === "Failed" ? "failed"
+          : outcome === "Error" || outcome === "Timeout" || outcome === "Aborted" ? "error"
+          : outcome === "Passed" ? "passed"
+          : "skipped",
+        durationSeconds: parseTimeSpan(attr(unitTestResult, "duration")),
+        message: text(child(errorInfo, "Message")),
+        stack: text(child(errorInfo, "StackTrace")),
+      }));
+    }
+  }
+  return results;
+}
+
+function parseTapDiagnostics(lines: string[]): Record<string, any> {
+  const indent = Math.min(...lines.filter(line => line.trim()).map(line => line.length - line.trimStart().length));
+  try {
+    const parsed = yaml.load(lines.map(line => line.slice(indent)).join("\n"));
+    return parsed && typeof parsed === "object" ? parsed as Record<string, any> : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Parse a TAP stream, including the YAML diagnostic blocks that follow a failing test
+ */
+export function parseTap(content: string): TestCaseResult[] {
+  const results: TestCaseResult[] = [];
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const match = /^(not ok|ok)\b\s*(\d+)?\s*(?:-\s*)?([^#]*?)\s*(?:#\s*(\w+)\s*(.*))?$/.exec(lines[i]);
+    if (!match) {
+      continue;
+    }
+    const directive = match[4]?.toUpperCase();
+    const failed = match[1] === "not ok";
+    const result: TestCaseResult = {
+      name: match[3] || `test ${match[2] ?? results.length + 1}`,
+      outcome: directive === "SKIP" || directive === "TODO" ? "skipped" : failed ? "failed" : "passed",
+    };
+
+    if (lines[i + 1]?.trim() === "---") {
+      const diagnostics: string[] = [];
+      for (i += 2; i < lines.length && lines[i].trim() !== "..."; i++) {
+        diagnostics.push(lines[i]);
+      }
+      const details = parseTapDiagnostics(diagnostics);
+      results.push(withLocation({
+        ...result,
+        message: details.message !== undefined ? String(details.message) : undefined,
+        stack: details.stack !== undefined ? String(details.stack) : details.at !== undefined ? String(details.at) : undefined,
+      }, details.file !== undefined ? String(details.file) : undefined, toNumber(details.line?.toString())));
+      continue;
+    }
+    results.push(result);
+  }
+  return results;
+}
+
+/**
+ * Detect the format of a report file and parse it, returning undefined for
+ * files that are not test reports
+ */
+export function parseTestReport(fileName: string, content: string): { format: TestReportFormat, cases: TestCaseResult[] } | undefined {
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension === ".tap" || /^TAP version \d+/m.test(content.slice(0, 200))) {
+    return { format: "tap", cases: parseTap(content) };
+  }
+  if (extension !== ".xml" && extension !== ".trx") {
+    return undefined;
+  }
+
+  let root: XmlNode;
+  try {
+    root = xmlParser.parse(content);
+  } catch {
+    return undefined;
+  }
+  if (root.TestRun) {
+    return { format: "trx", cases: parseTrx(root) };
+  }
+  if (root.assemblies) {
+    return { format: "xunit", cases: parseXUnit(root) };
+  }
+  if (root.testsuites || root.testsuite) {
+    return { format: "junit", cases: parseJUnit(root) };
+  }
+  return undefined;
+}
+
+function summarize(cases: TestCaseResult[]): TestTotals {
+  return {
+    total: cases.length,
+    passed: cases.filter(c => c.outcome === "passed").length,
+    failed: cases.filter(c => c.outcome === "failed").length,
+    errored: cases.filter(c => c.outcome === "error").length,
+    skipped: cases.filter(c => c.outcome === "skipped").length,
+  };
+}
+
+function failureKey(testCase: TestCaseResult): string {
+  return `${testCase.classname ?? testCase.suite ?? ""}::${testCase.name}`;
+}
+
+function compileArtifactPattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, "i");
+  } catch (error) {
+    throw new InvalidArgumentError(`artifactPattern is not a valid regular expression: ${(error as Error).message}`, "artifactPattern");
+  }
+}
+
+async function collectTestReports(
+  owner: string,
+  repo: string,
+  runId: number,
+  artifactPattern: RegExp
+): Promise<TestReport[]> {
+  const { artifacts } = await listRunArtifacts(owner, repo, runId, { all: true });
+  const reports: TestReport[] = [];
+
+  for (const artifact of artifacts) {
+    if (artifact.expired || artifact.size_in_bytes > MAX_REPORT_ARTIFACT_BYTES || !artifactPattern.test(artifact.name)) {
+      continue;
+    }
+    const entries = await downloadArtifactArchive(owner, repo, artifact);
+    for (const entry of entries) {
+      const parsed = parseTestReport(entry.name, entry.data.toString("utf8"));
+      if (parsed && parsed.cases.length > 0) {
+        reports.push({ artifact: artifact.name, file: entry.name, ...parsed });
+      }
+    }
+  }
+
+  return reports;
+}
+
+/**
+ * Function implementations
+ */
+
+// Get parsed test results for a workflow run
+export async function getRunTestResults(
+  owner: string,
+  repo: string,
+  runId: number,
+  options: { artifactPattern?: string, compareWithLastSuccess?: boolean, maxFailures?: number } = {}
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const artifactPattern = options.artifactPattern ? compileArtifactPattern(options.artifactPattern) : DEFAULT_ARTIFACT_PATTERN;
+  const maxFailures = options.maxFailures ?? DEFAULT_MAX_FAILURES;
+
+  const reports = await collectTestReports(owner, repo, runId, artifactPattern);
+  const cases = reports.flatMap(report => report.cases.map(testCase => ({ ...testCase, report: `${report.artifact}/${report.file}` })));
+  const failures = cases.filter(testCase => testCase.outcome === "failed" || testCase.outcome === "error");
+
+  const result: Record<string, unknown> = {
+    runId,
+    reports: reports.map(report => ({ artifact: report.artifact, file: report.file, format: report.format, totals: summarize(report.cases) })),
+    totals: summarize(cases),
+    failures: failures.slice(0, maxFailures),
+    ...(failures.length > maxFailures ? { omittedFailures: failures.length - maxFailures } : {}),
+  };
+
+  if (options.compareWithLastSuccess) {
+    const run = await getWorkflowRun(owner, repo, runId);
+    const { workflow_runs } = await listWorkflowRuns(owner, repo, {
+      workflowId: run.workflow_id,
+      branch: run.head_branch ?? undefined,
+      status: "success",
+      perPage: 20,
+    });
+    const baseline = workflow_runs.find(candidate =>
+      candidate.id !== run.id && (candidate.created_at ?? "") <= (run.created_at ?? "")
+    );
+
+    if (!baseline) {
+      result.comparison = { message: `No earlier successful run found on ${run.head_branch}` };
+    } else {
+      const baselineReports = await collectTestReports(owner, repo, baseline.id, artifactPattern);
+      const baselineFailures = new Set(
+        baselineReports
+          .flatMap(report => report.cases)
+          .filter(testCase => testCase.outcome === "failed" || testCase.outcome === "error")
+          .map(failureKey)
+      );
+      const currentFailures = new Set(failures.map(failureKey));
+      result.comparison = {
+        baselineRunId: baseline.id,
+        baselineUrl: baseline.html_url,
+        baselineHasReports: baselineReports.length > 0,
+        newFailures: [...currentFailures].filter(key => !baselineFailures.has(key)),
+        existingFailures: [...currentFailures].filter(key => baselineFailures.has(key)),
+        fixedSinceBaseline: [...baselineFailures].filter(key => !currentFailures.has(key)),
+      };
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,234 @@
+import { z } from "zod";
+import { validateOwnerName, validateRepositoryName } from "../common/utils.js";
+import { Job } from "../common/types.js";
+import { WorkflowJobDefinition, parseWorkflowYaml } from "../common/workflow-definition.js";
+import { getWorkflowRun, getWorkflowRunJobs, getWorkflowYaml } from "./actions.js";
+
+/**
+ * Schema definitions
+ */
+
+// Get run timeline schema
+export const GetRunTimelineSchema = z.object({
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+  runId: z.number().describe("The ID of the workflow run"),
+  format: z.enum(["mermaid", "dot", "none"]).optional().describe("Graph rendering to include (default: mermaid)"),
+});
+
+export type TimelineNode = {
+  id: string;
+  needs: string[];
+  jobs: Array<{
+    id: number;
+    name: string;
+    conclusion: string | null;
+    queueSeconds: number | null;
+    executionSeconds: number | null;
+  }>;
+  startedAt: string | null;
+  completedAt: string | null;
+  queueSeconds: number;
+  executionSeconds: number | null;
+  conclusion: string | null;
+};
+
+/**
+ * Timeline helpers
+ */
+
+function secondsBetween(start: string | null | undefined, end: string | null | undefined): number | null {
+  if (!start || !end) {
+    return null;
+  }
+  return Math.max(0, Math.round((Date.parse(end) - Date.parse(start)) / 1000));
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) {
+    return "n/a";
+  }
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+/**
+ * Find the workflow job a run job belongs to. Matrix jobs are named
+ * "<job> (<values>)" and jobs of reusable workflows "<caller> / <job>".
+ */
+function matchDefinition(job: Job, definitions: WorkflowJobDefinition[]): WorkflowJobDefinition | undefined {
+  const candidates = definitions.map(definition => ({
+    definition,
+    // Names built from expressions can only be matched on their static prefix
+    label: (definition.name ?? definition.id).split("${{")[0].trim(),
+  }));
+  return candidates.find(({ label }) => job.name === label)?.definition
+    ?? candidates.find(({ label }) => label && (job.name.startsWith(`${label} (`) || job.name.startsWith(`${label} / `)))?.definition
+    ?? candidates.find(({ label }) => label && job.name.startsWith(label))?.definition;
+}
+
+function combineConclusions(conclusions: Array<string | null>): string | null {
+  for (const conclusion of ["failure", "timed_out", "cancelled", "action_required", null, "success"]) {
+    if (conclusions.includes(conclusion)) {
+      return conclusion;
+    }
+  }
+  return conclusions[0] ?? null;
+}
+
+function buildNodes(jobs: Job[], definitions: WorkflowJobDefinition[]): TimelineNode[] {
+  const groups = new Map<string, { needs: string[], jobs: Job[] }>();
+  for (const definition of definitions) {
+    groups.set(definition.id, { needs: definition.needs, jobs: [] });
+  }
+  for (const job of jobs) {
+    const definition = matchDefinition(job, definitions);
+    const id = definition?.id ?? job.name;
+    if (!groups.has(id)) {
+      groups.set(id, { needs: [], jobs: [] });
+    }
+    groups.get(id)!.jobs.push(job);
+  }
+
+  return [...groups.entries()]
+    .filter(([, group]) => group.jobs.length > 0)
+    .map(([id, group]) => {
+      const ran = group.jobs.filter(job => job.conclusion !== "skipped");
+      const starts = ran.map(job => job.started_at).filter(Boolean).sort();
+      const ends = ran.map(job => job.completed_at).filter((end): end is string => !!end).sort();
+      const startedAt = starts[0] ?? null;
+      const completedAt = ends.length === ran.length ? ends[ends.length - 1] ?? null : null;
+      return {
+        id,
+        needs: group.needs.filter(need => groups.get(need)?.jobs.length),
+        jobs: group.jobs.map(job => ({
+          id: job.id,
+          name: job.name,
+          conclusion: job.conclusion,
+          queueSeconds: job.conclusion === "skipped" ? null : secondsBetween(job.created_at, job.started_at),
+          executionSeconds: job.conclusion === "skipped" ? null : secondsBetween(job.started_at, job.completed_at),
+        })),
+        startedAt,
+        completedAt,
+        queueSeconds: ran.reduce((sum, job) => sum + (secondsBetween(job.created_at, job.started_at) ?? 0), 0),
+        executionSeconds: secondsBetween(startedAt, completedAt),
+        conclusion: combineConclusions(group.jobs.map(job => job.conclusion)),
+      };
+    });
+}
+
+/**
+ * Walk back from the job that finished last, always following the
+ * dependency that finished last, since that is the one the job waited for
+ */
+function findCriticalPath(nodes: TimelineNode[]): TimelineNode[] {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const finish = (node: TimelineNode | undefined) => node?.completedAt ? Date.parse(node.completedAt) : -1;
+
+  let current = nodes.reduce<TimelineNode | undefined>((latest, node) => finish(node) > finish(latest) ? node : latest, undefined);
+  const path: TimelineNode[] = [];
+  while (current && finish(current) >= 0) {
+    path.unshift(current);
+    current = current.needs
+      .map(need => byId.get(need))
+      .reduce<TimelineNode | undefined>((latest, node) => finish(node) > finish(latest) ? node : latest, undefined);
+  }
+  return path;
+}
+
+function graphId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_]/g, "_");
+}
+
+function renderMermaid(nodes: TimelineNode[], criticalPath: Set<string>): string {
+  const lines = ["graph LR"];
+  for (const node of nodes) {
+    const label = `${node.id}<br/>${formatDuration(node.executionSeconds)} (queued ${formatDuration(node.queueSeconds)})`;
+    lines.push(`  ${graphId(node.id)}["${label.replace(/"/g, "'")}"]:::${node.conclusion ?? "pending"}`);
+  }
+  for (const node of nodes) {
+    for (const need of node.needs) {
+      const arrow = criticalPath.has(node.id) && criticalPath.has(need) ? "==>" : "-->";
+      lines.push(`  ${graphId(need)} ${arrow} ${graphId(node.id)}`);
+    }
+  }
+  lines.push(
+    "  classDef success fill:#d4f7d4,stroke:#2da44e",
+    "  classDef failure fill:#ffd7d5,stroke:#cf222e",
+    "  classDef cancelled fill:#eeeeee,stroke:#6e7781",
+    "  classDef skipped fill:#f6f8fa,stroke:#d0d7de,stroke-dasharray:3",
+    "  classDef pending fill:#fff8c5,stroke:#bf8700"
+  );
+  return lines.join("\n");
+}
+
+function renderDot(nodes: TimelineNode[], criticalPath: Set<string>): string {
+  const colors: Record<string, string> = { success: "#2da44e", failure: "#cf222e", cancelled: "#6e7781", skipped: "#d0d7de" };
+  const lines = ["digraph run {", "  rankdir=LR;", "  node [shape=box];"];
+  for (const node of nodes) {
+    const label = `${node.id}\\n${formatDuration(node.executionSeconds)} (queued ${formatDuration(node.queueSeconds)})`;
+    lines.push(`  "${node.id}" [label="${label}", color="${colors[node.conclusion ?? ""] ?? "#bf8700"}"];`);
+  }
+  for (const node of nodes) {
+    for (const need of node.needs) {
+      const critical = criticalPath.has(node.id) && criticalPath.has(need);
+      lines.push(`  "${need}" -> "${node.id}"${critical ? " [penwidth=3]" : ""};`);
+    }
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Function implementations
+ */
+
+// Get the job graph, timings and critical path of a workflow run
+export async function getRunTimeline(
+  owner: string,
+  repo: string,
+  runId: number,
+  format: "mermaid" | "dot" | "none" = "mermaid"
+) {
+  owner = validateOwnerName(owner);
+  repo = validateRepositoryName(repo);
+
+  const run = await getWorkflowRun(owner, repo, runId);
+  const { jobs } = await getWorkflowRunJobs(owner, repo, runId, "latest", undefined, undefined, { all: true });
+
+  // Read the workflow as it was at the commit of the run
+  let definitions: WorkflowJobDefinition[] = [];
+  let graphWarning: string | undefined;
+  try {
+    const fileName = run.path.split("@")[0].split("/").pop()!;
+    const { yaml: yamlContent } = await getWorkflowYaml(owner, repo, fileName, run.head_sha);
+    definitions = parseWorkflowYaml(yamlContent).jobs;
+  } catch (error) {
+    graphWarning = `Could not read needs: from ${run.path}: ${(error as Error).message}`;
+  }
+
+  const nodes = buildNodes(jobs, definitions);
+  const criticalPath = findCriticalPath(nodes);
+  const criticalIds = new Set(criticalPath.map(node => node.id));
+  const completedAt = nodes.map(node => node.completedAt).filter((end): end is string => !!end).sort().pop();
+
+  return {
+    runId: run.id,
+    htmlUrl: run.html_url,
+    status: run.status,
+    conclusion: run.conclusion,
+    wallClockSeconds: secondsBetween(run.run_started_at, completedAt),
+    totalQueueSeconds: nodes.reduce((sum, node) => sum + node.queueSeconds, 0),
+    totalExecutionSeconds: nodes.reduce((sum, node) => sum + node.jobs.reduce((jobSum, job) => jobSum + (job.executionSeconds ?? 0), 0), 0),
+    criticalPath: {
+      jobs: criticalPath.map(node => node.id),
+      seconds: secondsBetween(run.run_started_at, criticalPath[criticalPath.length - 1]?.completedAt),
+      // For matrix jobs only the slowest-to-start leg held up the path
+      queueSeconds: criticalPath.reduce((sum, node) => sum + Math.max(0, ...node.jobs.map(job => job.queueSeconds ?? 0)), 0),
+    },
+    nodes,
+    ...(format === "mermaid" ? { mermaid: renderMermaid(nodes, criticalIds) } : {}),
+    ...(format === "dot" ? { dot: renderDot(nodes, criticalIds) } : {}),
+    ...(graphWarning ? { warning: graphWarning } : {}),
+  };
+}
@@ -0,0 +1,294 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { GitHubResourceNotFoundError, InvalidArgumentError } from "./common/errors.js";
+import { logger } from "./common/logger.js";
+import { checkRepositoryAccess, isToolEnabled } from "./common/policy.js";
+import { toProtocolError } from "./common/tool-errors.js";
+import { validateOwnerName, validateRepositoryName } from "./common/utils.js";
+import {
+  getWorkflow,
+  getWorkflowDispatchInputs,
+  getWorkflowRun,
+  getWorkflowRunJobs,
+  getWorkflowYaml,
+  listWorkflowRuns,
+} from "./operations/actions.js";
+import { getJobLogs } from "./operations/logs.js";
+import { lintWorkflow } from "./operations/lint.js";
+import { getWorkflowMetrics, renderMetricsMarkdown } from "./operations/metrics.js";
+import { getRunTimeline } from "./operations/timeline.js";
+
+type PromptMessage = GetPromptResult["messages"][number];
+
+// Log excerpts of at most this many failed jobs go into a prompt
+const MAX_FAILED_JOBS = 5;
+
+/**
+ * Schema definitions
+ */
+
+// Prompt arguments are always strings
+const RepositoryArgsSchema = {
+  owner: z.string().describe("Repository owner (username or organization)"),
+  repo: z.string().describe("Repository name"),
+};
+
+const DiagnoseFailedRunArgsSchema = {
+  ...RepositoryArgsSchema,
+  runId: z.string().describe("ID of the failed workflow run"),
+};
+
+const WhyIsCiSlowArgsSchema = {
+  ...RepositoryArgsSchema,
+  workflow: z.string().describe("Workflow file name, e.g. ci.yml"),
+  branch: z.string().optional().describe("Only look at runs on this branch"),
+};
+
+const PrepareReleaseDispatchArgsSchema = {
+  ...RepositoryArgsSchema,
+  workflow: z.string().describe("Release workflow file name, e.g. release.yml"),
+  ref: z.string().optional().describe("Branch or tag to release from"),
+};
+
+const ReviewWorkflowChangeArgsSchema = {
+  ...RepositoryArgsSchema,
+  workflow: z.string().describe("Workflow file name, e.g. ci.yml"),
+  ref: z.string().describe("Branch, tag or commit SHA with the changed workflow"),
+};
+
+/**
+ * Message helpers
+ */
+
+function text(value: string): PromptMessage {
+  return { role: "user", content: { type: "text", text: value } };
+}
+
+function resource(uri: string, mimeType: string, value: string): PromptMessage {
+  return { role: "user", content: { type: "resource", resource: { uri, mimeType, text: value } } };
+}
+
+function codeBlock(language: string, value: string): string {
+  return `\`\`\`${language}\n${value.trimEnd()}\n\`\`\``;
+}
+
+function parseRunId(value: string): number {
+  const runId = Number(value);
+  if (!Number.isInteger(runId) || runId <= 0) {
+    throw new InvalidArgumentError(`runId must be a workflow run ID, got "${value}"`, "runId");
+  }
+  return runId;
+}
+
+// The workflow file of a run, or undefined for runs without one in the repository
+async function workflowYamlAt(owner: string, repo: string, path: string, ref: string): Promise<string | undefined> {
+  if (!path.startsWith(".github/workflows/")) {
+    return undefined;
+  }
+  try {
+    return (await getWorkflowYaml(owner, repo, path.split("/").pop()!.split("@")[0], ref)).yaml;
+  } catch (error) {
+    if (error instanceof GitHubResourceNotFoundError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Function implementations
+ */
+
+// Run, failed jobs with the log excerpts of their failed steps, and the workflow at the run's commit
+export async function diagnoseFailedRun(owner: string, repo: string, runIdValue: string): Promise<PromptMessage[]> {
+  const runId = parseRunId(runIdValue);
+  const run = await getWorkflowRun(owner, repo, runId);
+  const { jobs } = await getWorkflowRunJobs(owner, repo, runId, "latest", undefined, undefined, { all: true });
+  const failedJobs = jobs.filter(job => job.conclusion === "failure" || job.conclusion === "timed_out");
+  const jobLogs = await Promise.all(failedJobs.slice(0, MAX_FAILED_JOBS).map(job => getJobLogs(owner, repo, job.id)));
+  const yaml = await workflowYamlAt(owner, repo, run.path, run.head_sha);
+
+  return [
+    text([
+      `Diagnose why workflow run ${run.id} ("${run.name ?? run.path}", attempt ${run.run_attempt}) in ${owner}/${repo} failed.`,
+      `It ran for a ${run.event} event on ${run.head_branch ?? run.head_sha}; its conclusion is ${run.conclusion ?? run.status}.`,
+      "The run, the log excerpts of its failed jobs and the workflow definition at the run's commit follow.",
+      "",
+      "1. Name the failing job and step and quote the first error that caused the failure, not its follow-up errors.",
+      "2. Classify the failure as a code or test failure, a likely flaky test, or an infrastructure or configuration problem, and explain why.",
+      "3. Propose a concrete fix: the change to make, or the command to re-run if it is transient.",
+      "4. If the excerpts are not enough to decide, say which data would settle it, e.g. get_run_test_results or get_job_logs with more context.",
+    ].join("\n")),
+    resource(`gha://${owner}/${repo}/runs/${run.id}`, "application/json", JSON.stringify(run, null, 2)),
+    ...(failedJobs.length === 0
+      ? [text(`No job of the latest attempt failed; the jobs concluded ${[...new Set(jobs.map(job => job.conclusion ?? job.status))].join(", ") || "nothing yet"}.`)]
+      : jobLogs.map(log => text(`Failed job "${log.name}" (${log.conclusion}), log excerpt of the failed steps:\n${codeBlock("json", JSON.stringify(log, null, 2))}`))),
+    ...(failedJobs.length > MAX_FAILED_JOBS
+      ? [text(`${failedJobs.length - MAX_FAILED_JOBS} more jobs failed: ${failedJobs.slice(MAX_FAILED_JOBS).map(job => `"${job.name}" (${job.id})`).join(", ")}.`)]
+      : []),
+    ...(yaml ? [text(`Workflow ${run.path} at ${run.head_sha}:\n${codeBlock("yaml", yaml)}`)] : []),
+  ];
+}
+
+// Duration metrics, the timeline of the latest successful run, and the workflow definition
+export async function whyIsCiSlow(owner: string, repo: string, workflow: string, branch?: string): Promise<PromptMessage[]> {
+  const metrics = await getWorkflowMetrics(owner, repo, workflow, { branch });
+  const { workflow_runs: [latest] } = await listWorkflowRuns(owner, repo, { workflowId: workflow, branch, status: "success", perPage: 1 });
+  const timeline = latest ? await getRunTimeline(owner, repo, latest.id, "none") : undefined;
+  const { yaml } = await getWorkflowYaml(owner, repo, workflow);
+
+  return [
+    text([
+      `Find out why the ${workflow} workflow in ${owner}/${repo}${branch ? ` on ${branch}` : ""} is slow and how to speed it up.`,
+      "Its duration metrics, the job timeline of the latest successful run and the workflow definition follow.",
+      "",
+      "1. Say where the time goes: queueing versus execution, and which jobs form the critical path.",
+      "2. Point out trends in the metrics, e.g. runs that got slower on a certain day.",
+      "3. Look in the workflow for missing dependency caches, jobs that wait on each other without needing to, oversized matrices and steps that could be skipped.",
+      "4. Propose changes ordered by the time they would save, with a rough estimate for each.",
+    ].join("\n")),
+    text(`Duration metrics:\n\n${renderMetricsMarkdown(metrics)}`),
+    timeline
+      ? text(`Timeline of run ${latest!.id}, the latest successful run:\n${codeBlock("json", JSON.stringify(timeline, null, 2))}`)
+      : text("There is no successful run to show a timeline for."),
+    resource(`gha://${owner}/${repo}/workflows/${workflow}/yaml`, "application/yaml", yaml),
+  ];
+}
+
+// Dispatch inputs and recent manual runs, with the confirmation handshake as the way to trigger
+export async function prepareReleaseDispatch(owner: string, repo: string, workflow: string, ref?: string): Promise<PromptMessage[]> {
+  const definition = await getWorkflow(owner, repo, workflow);
+  const { inputs } = await getWorkflowDispatchInputs(owner, repo, workflow);
+  const { workflow_runs: runs } = await listWorkflowRuns(owner, repo, { workflowId: workflow, event: "workflow_dispatch", perPage: 5 });
+  const recentRuns = runs.map(run => ({
+    id: run.id,
+    ref: run.head_branch,
+    status: run.status,
+    conclusion: run.conclusion,
+    createdAt: run.created_at,
+    htmlUrl: run.html_url,
+  }));
+
+  return [
+    text([
+      `Prepare a release by dispatching "${definition.name}" (${definition.path}) in ${owner}/${repo}${ref ? ` on ${ref}` : ""}.`,
+      "The workflow's dispatch inputs and its recent manual runs follow.",
+      "",
+      `1. ${ref ? `Use ${ref} as the ref.` : "Ask which branch or tag to release from unless the user already said so."}`,
+      "2. Choose a value for every required input and for optional inputs that matter for a release; keep to the declared choices and types, and follow the conventions of recent runs, e.g. the next version number.",
+      "3. Check that no earlier dispatch is still queued or in progress and that the last one did not fail for a reason that still applies.",
+      "4. Show the ref and inputs to the user, then call trigger_workflow with dryRun: true and present the preview.",
+      "5. Only after the user approves, call trigger_workflow again with the same arguments and the confirmationToken from the preview.",
+    ].join("\n")),
+    text(`Dispatch inputs of ${definition.path}:\n${codeBlock("json", JSON.stringify(inputs, null, 2))}`),
+    text(recentRuns.length > 0
+      ? `Recent manual runs:\n${codeBlock("json", JSON.stringify(recentRuns, null, 2))}`
+      : "The workflow has not been dispatched manually before."),
+  ];
+}
+
+// Changed and current workflow definitions with the lint findings of the change
+export async function reviewWorkflowChange(owner: string, repo: string, workflow: string, ref: string): Promise<PromptMessage[]> {
+  const { yaml: changed } = await getWorkflowYaml(owner, repo, workflow, ref);
+  let current: string | undefined;
+  try {
+    current = (await getWorkflowYaml(owner, repo, workflow)).yaml;
+  } catch (error) {
+    // A workflow added by the change does not exist on the default branch yet
+    if (!(error instanceof GitHubResourceNotFoundError)) {
+      throw error;
+    }
+  }
+  const lint = await lintWorkflow({ yaml: changed, workflowId: workflow });
+
+  return [
+    text([
+      `Review the change to the ${workflow} workflow in ${owner}/${repo} at ${ref}${current ? " against the default branch" : "; the workflow is new"}.`,
+      `The ${current ? "current and changed definitions" : "new definition"} and the lint findings of the change follow.`,
+      "",
+      "1. Summarize what the change does to triggers, jobs and steps.",
+      "2. Check for security problems: broader `permissions` than needed, secrets reachable from untrusted code such as `pull_request_target` with a checkout of the PR head, and script injection through `${{ github.event... }}` in `run` steps.",
+      "3. Check for reliability problems: actions not pinned to a version or commit, missing `concurrency` or timeouts, and conditions that skip required jobs.",
+      "4. Explain each lint error and warning and how to fix it.",
+      "5. End with a verdict: the issues that must be fixed before merging, then optional suggestions.",
+    ].join("\n")),
+    ...(current ? [text(`Current ${workflow} on the default branch:\n${codeBlock("yaml", current)}`)] : []),
+    text(`Changed ${workflow} at ${ref}:\n${codeBlock("yaml", changed)}`),
+    text(`Lint findings of the changed workflow:\n${codeBlock("json", JSON.stringify(lint, null, 2))}`),
+  ];
+}
+
+/**
+ * Register the CI triage prompts on a server. Each prompt fetches the data it
+ * needs up front and returns it with instructions, so a model can act on it
+ * without knowing which tools to call first.
+ */
+export function registerPrompts(server: McpServer): void {
+  // Prompts follow the repository policy and fail with the same details as tools
+  const prepare = async (
+    name: string,
+    tool: string,
+    args: { owner: string, repo: string },
+    build: (owner: string, repo: string) => Promise<PromptMessage[]>
+  ) => {
+    try {
+      const owner = validateOwnerName(args.owner);
+      const repo = validateRepositoryName(args.repo);
+      checkRepositoryAccess(tool, owner, repo);
+      return { description: name, messages: await build(owner, repo) };
+    } catch (error) {
+      throw toProtocolError(error, `Failed to prepare prompt ${name}`, tool);
+    }
+  };
+
+  // A prompt is only offered while the policy enables every tool whose data it fetches
+  const enabled = (name: string, tools: string[]) => {
+    const disabled = tools.filter(tool => !isToolEnabled(tool));
+    if (disabled.length > 0) {
+      logger.debug("Prompt disabled by policy", { prompt: name, tools: disabled });
+      return false;
+    }
+    return true;
+  };
+
+  if (enabled("diagnose-failed-run", ["get_workflow_run", "get_workflow_run_jobs", "get_job_logs", "get_workflow_yaml"])) {
+    server.prompt(
+      "diagnose-failed-run",
+      "Find the root cause of a failed workflow run from its failed jobs, logs and workflow definition",
+      DiagnoseFailedRunArgsSchema,
+      async (args) => prepare("diagnose-failed-run", "get_job_logs", args,
+        (owner, repo) => diagnoseFailedRun(owner, repo, args.runId))
+    );
+  }
+
+  if (enabled("why-is-ci-slow", ["get_workflow_metrics", "list_workflow_runs", "get_run_timeline", "get_workflow_yaml"])) {
+    server.prompt(
+      "why-is-ci-slow",
+      "Explain where a workflow spends its time and how to make it faster",
+      WhyIsCiSlowArgsSchema,
+      async (args) => prepare("why-is-ci-slow", "get_workflow_metrics", args,
+        (owner, repo) => whyIsCiSlow(owner, repo, args.workflow, args.branch))
+    );
+  }
+
+  if (enabled("prepare-release-dispatch", ["get_workflow", "get_workflow_dispatch_inputs", "list_workflow_runs", "trigger_workflow"])) {
+    server.prompt(
+      "prepare-release-dispatch",
+      "Choose the inputs for a release workflow and dispatch it after a preview and confirmation",
+      PrepareReleaseDispatchArgsSchema,
+      async (args) => prepare("prepare-release-dispatch", "get_workflow_dispatch_inputs", args,
+        (owner, repo) => prepareReleaseDispatch(owner, repo, args.workflow, args.ref))
+    );
+  }
+
+  if (enabled("review-workflow-change", ["get_workflow_yaml", "lint_workflow"])) {
+    server.prompt(
+      "review-workflow-change",
+      "Review a changed workflow file for correctness, security and reliability",
+      ReviewWorkflowChangeArgsSchema,
+      async (args) => prepare("review-workflow-change", "get_workflow_yaml", args,
+        (owner, repo) => reviewWorkflowChange(owner, repo, args.workflow, args.ref))
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import {
+  McpServer,
+  ReadResourceTemplateCallback,
+  ResourceMetadata,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { GitHubResourceNotFoundError, PolicyViolationError } from "./common/errors.js";
+import { logger } from "./common/logger.js";
+import { checkRepositoryAccess, isToolEnabled } from "./common/policy.js";
+import { toProtocolError } from "./common/tool-errors.js";
+import { validateOwnerName, validateRepositoryName } from "./common/utils.js";
+import { getWorkflowJob, getWorkflowRun, getWorkflowYaml } from "./operations/actions.js";
+import { getJobLogText } from "./operations/logs.js";
+
+// How often subscribed runs are checked for changes
+const POLL_INTERVAL_MS = 15 * 1000;
+
+const RUN_URI = /^gha:\/\/([^/]+)\/([^/]+)\/runs\/(\d+)(?:\/jobs\/(\d+)\/log)?$/;
+
+type Variables = Record<string, string | string[]>;
+
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+// Resource reads follow the policy of the equivalent tool and fail with protocol errors that carry the same details as its errors
+async function read<T>(uri: URL, tool: string, variables: Variables, fn: (owner: string, repo: string) => Promise<T>): Promise<T> {
+  try {
+    const owner = validateOwnerName(variable(variables, "owner"));
+    const repo = validateRepositoryName(variable(variables, "repo"));
+    checkRepositoryAccess(tool, owner, repo);
+    return await fn(owner, repo);
+  } catch (error) {
+    throw toProtocolError(error, `Failed to read ${uri.href}`, tool);
+  }
+}
+
+// Completions are answered by handleCompletions, which sees all arguments
+const template = (uriTemplate: string) => new ResourceTemplate(uriTemplate, { list: undefined });
+
+/**
+ * Register the gha:// resource templates and resource subscriptions on a server
+ *
+ * Run and job log resources can be subscribed to. Subscribed runs are polled
+ * while they are queued or in progress and the client receives
+ * `notifications/resources/updated` whenever their status changes.
+ *
+ * @returns A function that stops polling, to call when the server closes
+ */
+export function registerResources(server: McpServer): () => void {
+  // Templates are only offered while the policy enables the tool that returns the same data
+  const resource = (name: string, tool: string, uriTemplate: string, metadata: ResourceMetadata, callback: ReadResourceTemplateCallback) => {
+    if (!isToolEnabled(tool)) {
+      logger.debug("Resource disabled by policy", { resource: name, tool });
+      return;
+    }
+    server.resource(name, template(uriTemplate), metadata, callback);
+  };
+
+  resource(
+    "workflow_yaml",
+    "get_workflow_yaml",
+    "gha://{owner}/{repo}/workflows/{workflow}/yaml",
+    { description: "YAML definition of a workflow on the default branch; workflow is the file name, e.g. ci.yml", mimeType: "application/yaml" },
+    async (uri, variables) => {
+      const { yaml } = await read(uri, "get_workflow_yaml", variables, (owner, repo) => getWorkflowYaml(owner, repo, variable(variables, "workflow")));
+      return { contents: [{ uri: uri.href, mimeType: "application/yaml", text: yaml }] };
+    }
+  );
+
+  resource(
+    "workflow_run",
+    "get_workflow_run",
+    "gha://{owner}/{repo}/runs/{runId}",
+    { description: "A workflow run with its status, conclusion and timing", mimeType: "application/json" },
+    async (uri, variables) => {
+      const run = await read(uri, "get_workflow_run", variables, (owner, repo) => getWorkflowRun(owner, repo, Number(variable(variables, "runId"))));
+      return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(run) }] };
+    }
+  );
+
+  resource(
+    "job_log",
+    "get_job_logs",
+    "gha://{owner}/{repo}/runs/{runId}/jobs/{jobId}/log",
+    { description: "Complete plain text log of a job in a workflow run", mimeType: "text/plain" },
+    async (uri, variables) => {
+      const runId = Number(variable(variables, "runId"));
+      const jobId = Number(variable(variables, "jobId"));
+      const log = await read(uri, "get_job_logs", variables, async (owner, repo) => {
+        const job = await getWorkflowJob(owner, repo, jobId);
+        if (job.run_id !== runId) {
+          throw new GitHubResourceNotFoundError(`Job ${jobId} in run ${runId}`);
+        }
+        return getJobLogText(owner, repo, jobId);
+      });
+      return { contents: [{ uri: uri.href, mimeType: "text/plain", text: log }] };
+    }
+  );
+
+  // Polling timers of the subscribed URIs
+  const subscriptions = new Map<string, NodeJS.Timeout>();
+
+  const unsubscribe = (uri: string) => {
+    clearInterval(subscriptions.get(uri));
+    subscriptions.delete(uri);
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const match = uri.match(RUN_URI);
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Only run and job log resources can be subscribed to: ${uri}`);
+    }
+    const runId = match[3];
+    const tool = match[4] ? "get_job_logs" : "get_workflow_run";
+    let owner: string;
+    let repo: string;
+    try {
+      if (!isToolEnabled(tool)) {
+        throw new PolicyViolationError(`Resource ${uri} is disabled by policy along with ${tool}`, "tools", { tool, uri });
+      }
+      owner = validateOwnerName(decodeURIComponent(match[1]));
+      repo = validateRepositoryName(decodeURIComponent(match[2]));
+      checkRepositoryAccess(tool, owner, repo);
+    } catch (error) {
+      throw toProtocolError(error, `Failed to subscribe to ${uri}`, tool);
+    }
+    if (subscriptions.has(uri)) {
+      return {};
+    }
+
+    let lastState: string | undefined;
+    const poll = async () => {
+      try {
+        const run = await getWorkflowRun(owner, repo, Number(runId));
+        const state = `${run.status}/${run.conclusion}/${run.run_attempt}`;
+        if (lastState !== undefined && state !== lastState) {
+          await server.server.sendResourceUpdated({ uri });
+        }
+        lastState = state;
+        // A completed run no longer changes
+        if (run.status === "completed") {
+          unsubscribe(uri);
+        }
+      } catch (error) {
+        logger.warning("Polling subscribed run failed", { uri, error });
+      }
+    };
+
+    // Polling alone does not keep the process running
+    subscriptions.set(uri, setInterval(poll, POLL_INTERVAL_MS).unref());
+    void poll();
+    logger.debug("Resource subscribed", { uri });
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    unsubscribe(request.params.uri);
+    return {};
+  });
+
+  return () => {
+    for (const uri of [...subscriptions.keys()]) {
+      unsubscribe(uri);
+    }
+  };
+}